@@ -330,6 +330,10 @@ def traj_slice( start, end, root, filename ):
             for x in atom_indices.split( ";" )
         ]
 
+    stride = request.form.get( "stride", 1, type=int )
+    if stride < 1:
+        return "Invalid stride", 400
+
     traj = TRAJ_CACHE.get( path, struc_path )
     if not (0 <= start < end <= traj.numframes):
         return "Invalid frame range", 400
@@ -338,7 +342,7 @@ def traj_slice( start, end, root, filename ):
     packed_data_list = []
     # 在循环前打印请求范围，以便追踪
     print("--- Requesting frames from {} to {} ---".format(start, end))
-    for i in range(start, end):
+    for i in range(start, end, stride):
         # Get the binary data for the single frame
         frame_data = traj.get_frame_string( i, atom_indices=atom_indices )
         # 打印每一帧的索引和获取到的数据长度
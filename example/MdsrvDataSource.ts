@@ -1,12 +1,12 @@
-import { TrajectoryDataSource, FrameData } from '../src/TrajectoryProxy';
+import { TrajectoryDataSource, FrameData, FrameRequestOptions } from '../src/TrajectoryProxy';
+import { DataSourceError } from '../src/DataSourceErrors';
+import { TrajectoryMetadata } from '../src/TrajectoryMetadata';
 
 /**
- * Defines the structure of a single frame parsed from the mdsrv binary format.
+ * Defines the structure of a single frame parsed from the mdsrv binary format,
+ * which records the time of every frame.
  */
-export type ParsedFrameData = {
-  coords: Float32Array;
-  box: Float32Array;
-};
+export type ParsedFrameData = FrameData & { time: number };
 
 /**
  * Parses a raw binary buffer for a SINGLE frame.
@@ -17,15 +17,16 @@ export type ParsedFrameData = {
 function parseSingleFrameBuffer(buffer: ArrayBuffer): ParsedFrameData {
   // The binary layout for a single frame is:
   // - bytes 0-3: Int32, frameCountInChunk (always 1)
-  // - bytes 4-7: Float32, time (ignored)
+  // - bytes 4-7: Float32, time (ps)
   // - bytes 8-43: 9 * Float32, box matrix
   // - bytes 44-onwards: N * Float32, coordinates
   if (buffer.byteLength < 44) {
     throw new Error(`Frame buffer is too small to be valid (${buffer.byteLength} bytes).`);
   }
+  const time = new Float32Array(buffer, 4, 1)[0];
   const box = new Float32Array(buffer, 8, 9);
   const coords = new Float32Array(buffer, 44);
-  return { coords, box };
+  return { coords, box, time };
 }
 
 /**
@@ -77,61 +78,138 @@ export class MdsrvDataSource implements TrajectoryDataSource {
   private readonly baseUrl: string;
   private readonly root: string;
   private readonly filename: string;
+  private readonly deltaTime?: number;
+  private readonly timeOffset?: number;
+  public readonly supportsStride: boolean;
+  public readonly supportsAtomIndices = true; // traj_slice accepts the `atomIndices` form field
 
   constructor(options: {
     baseUrl: string;   // e.g., "http://localhost:5000"
     root: string;      // The data root on the server, e.g., "cwd"
     filename: string;  // The path to the file within the root, e.g., "data/trajectory.xtc"
+    supportsStride?: boolean; // Whether the server's traj_slice accepts the `stride` form field
+    // In ps, like the --deltaTime/--timeOffset of mdsrv; by default read from the first two frames
+    deltaTime?: number;
+    timeOffset?: number;
   }) {
     this.baseUrl = options.baseUrl.endsWith('/')
       ? options.baseUrl.slice(0, -1)
       : options.baseUrl;
     this.root = options.root;
     this.filename = options.filename;
+    this.supportsStride = options.supportsStride ?? false;
+    this.deltaTime = options.deltaTime;
+    this.timeOffset = options.timeOffset;
   }
 
   /**
-   * Implements the getMetadata method by calling the /traj/numframes endpoint.
+   * Implements the getMetadata method by calling the /traj/numframes endpoint. The source version
+   * is read from the file's headers, as in getIdentity(). Unless given to the constructor,
+   * deltaTime and timeOffset are derived from the times of the first two frames.
    */
-  public async getMetadata(): Promise<{ frameCount: number }> {
+  public async getMetadata(): Promise<TrajectoryMetadata> {
     const url = `${this.baseUrl}/traj/numframes/${this.root}/${this.filename}`;
     try {
       const response = await fetch(url);
       if (!response.ok) {
-        throw new Error(`Failed to fetch metadata: ${response.status} ${response.statusText}`);
+        throw new DataSourceError(`Failed to fetch metadata: ${response.status} ${response.statusText}`, { status: response.status });
       }
       const frameCountStr = await response.text();
       const frameCount = parseInt(frameCountStr, 10);
       if (isNaN(frameCount)) {
         throw new Error(`Invalid frame count received: "${frameCountStr}"`);
       }
-      return { frameCount };
+
+      const metadata: TrajectoryMetadata = {
+        frameCount,
+        units: { length: 'angstrom', time: 'ps' }, // MDAnalysis units, which mdsrv serves
+        source: { identity: this.getFileUrl(), version: await this.fetchFileVersion() },
+      };
+      let { deltaTime, timeOffset } = this;
+      if ((deltaTime === undefined || timeOffset === undefined) && frameCount > 0) {
+        // A single atom is enough to read the frame times.
+        const frames = await this.getFrames(0, Math.min(2, frameCount), undefined, { atomIndices: [[0, 1]] }) as ParsedFrameData[];
+        timeOffset ??= frames[0].time;
+        if (frames.length > 1) {
+          deltaTime ??= frames[1].time - frames[0].time;
+        }
+      }
+      if (deltaTime !== undefined) metadata.deltaTime = deltaTime;
+      if (timeOffset !== undefined) metadata.timeOffset = timeOffset;
+      return metadata;
     } catch (error) {
       console.error(`Error in getMetadata at ${url}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Implements the getIdentity method so the proxy's L2 cache survives page reloads.
+   * The file's validators (ETag / Last-Modified / size) act as the version, so the
+   * cache is invalidated whenever the trajectory file changes on the server.
+   */
+  public async getIdentity(): Promise<string> {
+    return `${this.getFileUrl()}@${await this.fetchFileVersion()}`;
+  }
+
+  private getFileUrl(): string {
+    return `${this.baseUrl}/file/${this.root}/${this.filename}`;
+  }
+
+  // Joins the file's validators (ETag / Last-Modified / size) from a HEAD request.
+  private async fetchFileVersion(): Promise<string> {
+    const url = this.getFileUrl();
+    try {
+      const response = await fetch(url, { method: 'HEAD' });
+      if (!response.ok) {
+        throw new DataSourceError(`Failed to fetch file headers: ${response.status} ${response.statusText}`, { status: response.status });
+      }
+      const version = ['ETag', 'Last-Modified', 'Content-Length']
+        .map(name => response.headers.get(name))
+        .filter(value => value !== null)
+        .join(';');
+      if (!version) {
+        throw new Error('Server did not provide any version headers for the trajectory file.');
+      }
+      return version;
+    } catch (error) {
+      console.error(`Error fetching the file headers at ${url}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Implements the getFrames method by calling the corrected /traj/slice endpoint.
+   * The signal is passed through to fetch, so cancelled requests free the connection.
    */
-  public async getFrames(start: number, end: number): Promise<FrameData[]> {
+  public async getFrames(start: number, end: number, signal?: AbortSignal, options: FrameRequestOptions = {}): Promise<FrameData[]> {
     const url = `${this.baseUrl}/traj/slice/${start}/${end}/${this.root}/${this.filename}`;
+    const body = new URLSearchParams();
+    if (options.stride && options.stride > 1) {
+      body.set('stride', options.stride.toString());
+    }
+    if (options.atomIndices) {
+      // Same encoding as NGL's MdsrvDatasource: "start,end;start,end"
+      body.set('atomIndices', options.atomIndices.map(range => range.join(',')).join(';'));
+    }
     try {
       const response = await fetch(url, {
         method: 'POST',
-        body: new URLSearchParams() // Send empty body as atom_indices is optional
+        body,
+        signal
       });
 
       if (!response.ok) {
-        throw new Error(`Failed to fetch frames ${start}-${end}: ${response.status} ${response.statusText}`);
+        throw new DataSourceError(`Failed to fetch frames ${start}-${end}: ${response.status} ${response.statusText}`, { status: response.status });
       }
 
       const buffer = await response.arrayBuffer();
       return parseChunkedBuffer(buffer);
 
     } catch (error) {
-      console.error(`Error in getFrames for range ${start}-${end} at ${url}:`, error);
+      if (!signal?.aborted) {
+        console.error(`Error in getFrames for range ${start}-${end} at ${url}:`, error);
+      }
       throw error;
     }
   }
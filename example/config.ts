@@ -0,0 +1,6 @@
+// Shared by the page and the proxy worker.
+export const SERVER_BASE_URL = 'http://127.0.0.1:38359/';
+export const TRAJECTORY_ROOT = 'cwd';
+export const STRUCTURE_FILENAME = 'data/ala3.pdb';
+export const TRAJECTORY_FILENAME = 'data/ala3.dcd';
+export const PLAYER_TIMEOUT_MS = 60; // Delay between frames of the NGL TrajectoryPlayer
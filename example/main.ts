@@ -1,13 +1,10 @@
 declare const NGL: any;
-import { TrajectoryProxy } from '../src/TrajectoryProxy';
-// import { TrajectoryProxy } from 'ngl-data-proxy';
-import { MdsrvDataSource as CustomMdsrvDataSource } from './MdsrvDataSource';
+import { TrajectoryProxyClient } from '../src/TrajectoryProxyClient';
+import { toTrajectoryParameters } from '../src/TrajectoryMetadata';
+// import { TrajectoryProxyClient } from 'ngl-data-proxy';
 
 // --- Configuration ---
-const SERVER_BASE_URL = 'http://127.0.0.1:38359/';
-const TRAJECTORY_ROOT = 'cwd';
-const STRUCTURE_FILENAME = 'data/ala3.pdb';
-const TRAJECTORY_FILENAME = 'data/ala3.dcd';
+import { SERVER_BASE_URL, TRAJECTORY_ROOT, STRUCTURE_FILENAME, PLAYER_TIMEOUT_MS } from './config';
 
 // --- UI Elements ---
 const playBtn = document.getElementById('playBtn') as HTMLButtonElement;
@@ -21,6 +18,8 @@ window.addEventListener('resize', () => stage.handleResize());
 let player: any | undefined;
 let traj: any | undefined;
 let isPlaying = false;
+// Aborted whenever the slider moves, so frames requested for stale scrub positions are cancelled.
+let scrubController: AbortController | undefined;
 
 /**
  * Main function to set up the NGL player with our custom trajectory proxy.
@@ -30,17 +29,13 @@ async function main() {
   const nglMdsrv = new NGL.MdsrvDatasource(SERVER_BASE_URL);
   NGL.DatasourceRegistry.add('mdsrv', nglMdsrv);
 
-  // --- Part 2: Setup for Trajectory Loading (using our custom proxy) ---
-  const customDataSource = new CustomMdsrvDataSource({
-    baseUrl: SERVER_BASE_URL,
-    root: TRAJECTORY_ROOT,
-    filename: TRAJECTORY_FILENAME,
-  });
-
-  const proxy = new TrajectoryProxy({
-    dataSource: customDataSource,
-    targetChunkSizeInBytes: 4 * 1024 * 1024, // 1MB
-    l2CacheSizeInBytes: 30 * 1024 * 1024, // 30MB
+  // --- Part 2: Setup for Trajectory Loading (using our custom proxy, hosted in a worker) ---
+  const worker = new Worker(new URL('./proxy.worker.ts', import.meta.url), { type: 'module' });
+  const proxy = new TrajectoryProxyClient(worker);
+  proxy.on('sourceStateChanged', ({ state }) => {
+    // Tint the frame label while the server is unreachable and frames are served from cache only.
+    frameLabel.style.color = state === 'available' ? '' : 'red';
+    frameLabel.title = state === 'available' ? '' : `Data source ${state}`;
   });
 
   try {
@@ -55,7 +50,8 @@ async function main() {
   // --- Part 3: The "Glue" - The Request Callback for CallbackTrajectory ---
   const frameRequestCallback = (
     responseCallback: Function, // Generic function type
-    frameIndex?: number
+    frameIndex?: number,
+    atomIndices?: number[][] // Atom ranges of the structure view the trajectory belongs to
   ) => {
     // --- DEBUGGING ---
     // console.log(`frameRequestCallback invoked. frameIndex: ${frameIndex}`);
@@ -68,7 +64,7 @@ async function main() {
     }
 
     // Case 2: Call to get a specific frame's data.
-    proxy.getFrame(frameIndex).then(frameData => {
+    proxy.getFrame(frameIndex, scrubController?.signal, atomIndices).then(frameData => {
       // The response callback expects four arguments: index, box, coords, count.
       responseCallback(
         frameIndex,
@@ -77,6 +73,7 @@ async function main() {
         proxy.getFrameCount()
       );
     }).catch(error => {
+      if (error?.name === 'AbortError') return; // Superseded by a newer scrub position
       console.error(`Error fetching frame ${frameIndex} via proxy:`, error);
     });
   };
@@ -101,7 +98,7 @@ async function main() {
     // Pass the callback function directly as the first argument to addTrajectory
     const trajComp = o.addTrajectory(
       frameRequestCallback, // Let NGL's makeTrajectory handle the creation
-      proxy.getMetadata()   // Pass metadata as the second argument (params)
+      toTrajectoryParameters(proxy.getMetadata()) // deltaTime/timeOffset, so NGL can show frame times
     );
 
     traj = trajComp.trajectory;
@@ -113,7 +110,7 @@ async function main() {
 
     player = new NGL.TrajectoryPlayer(traj, {
       step: 1,
-      timeout: 60, // milliseconds
+      timeout: PLAYER_TIMEOUT_MS, // milliseconds
       mode: 'loop',
       interpolateStep: 16,
       interpolateType: "linear",
@@ -148,6 +145,8 @@ async function main() {
   };
 
   slider.oninput = () => {
+    scrubController?.abort();
+    scrubController = new AbortController();
     let tempPause = false;
     if (traj) {
       if (isPlaying) {
@@ -0,0 +1,23 @@
+import { TrajectoryProxy } from '../src/TrajectoryProxy';
+import { exposeTrajectoryProxy } from '../src/TrajectoryProxyWorker';
+import { QuantizedChunkCodec } from '../src/ChunkCodec';
+import { MdsrvDataSource as CustomMdsrvDataSource } from './MdsrvDataSource';
+import { SERVER_BASE_URL, TRAJECTORY_ROOT, TRAJECTORY_FILENAME, PLAYER_TIMEOUT_MS } from './config';
+
+// Fetching, parsing and caching run here, off the thread NGL renders on.
+const proxy = new TrajectoryProxy({
+  dataSource: new CustomMdsrvDataSource({
+    baseUrl: SERVER_BASE_URL,
+    root: TRAJECTORY_ROOT,
+    filename: TRAJECTORY_FILENAME,
+  }),
+  targetChunkSizeInBytes: 4 * 1024 * 1024, // 1MB
+  l2CacheSizeInBytes: 30 * 1024 * 1024, // 30MB
+  persistL2: true,
+  // XTC precision (0.001 Å) is far below what the viewer can show, and fits several times more frames in L2.
+  l2Codec: new QuantizedChunkCodec({ precision: 1000, delta: true }),
+  // Lets the proxy size chunks so fetching keeps ahead of the player.
+  adaptiveChunkSize: { playbackFramesPerSecond: 1000 / PLAYER_TIMEOUT_MS },
+});
+
+exposeTrajectoryProxy(proxy);
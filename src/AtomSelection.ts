@@ -0,0 +1,80 @@
+/**
+ * A set of atoms as sorted, disjoint, half-open [start, end) index ranges, the form NGL's
+ * CallbackTrajectory passes as `atomIndices`. Frames fetched for a selection hold the coordinates
+ * of its atoms only, packed in index order.
+ */
+export class AtomSelection {
+  readonly ranges: [number, number][];
+  readonly key: string; // Canonical form, e.g. '0-120,300-310'
+  readonly atomCount: number;
+
+  private constructor(ranges: [number, number][]) {
+    this.ranges = ranges;
+    this.key = ranges.map(([start, end]) => `${start}-${end}`).join(',');
+    this.atomCount = ranges.reduce((count, [start, end]) => count + end - start, 0);
+  }
+
+  /**
+   * Normalizes `atomIndices` (ranges may be unsorted, overlapping or adjacent). Returns null for
+   * a selection of all `totalAtomCount` atoms, which is served by full frames.
+   */
+  static from(atomIndices: number[][], totalAtomCount: number | null): AtomSelection | null {
+    const sorted = atomIndices.map(range => {
+      const [start, end] = range;
+      if (range.length !== 2 || !Number.isInteger(start) || !Number.isInteger(end) || start < 0 || start >= end) {
+        throw new Error(`Invalid atom range [${range.join(', ')}].`);
+      }
+      return [start, end] as [number, number];
+    }).sort((a, b) => a[0] - b[0]);
+    if (sorted.length === 0) {
+      throw new Error("Atom selection must not be empty.");
+    }
+
+    const ranges: [number, number][] = [];
+    for (const [start, end] of sorted) {
+      const last = ranges[ranges.length - 1];
+      if (last && last[1] >= start) {
+        last[1] = Math.max(last[1], end);
+      } else {
+        ranges.push([start, end]);
+      }
+    }
+    if (totalAtomCount !== null && ranges.length === 1 && ranges[0][0] === 0 && ranges[0][1] >= totalAtomCount) {
+      return null;
+    }
+    return new AtomSelection(ranges);
+  }
+
+  static parse(key: string): AtomSelection {
+    return new AtomSelection(key.split(',').map(range => range.split('-').map(Number) as [number, number]));
+  }
+
+  contains(other: AtomSelection): boolean {
+    return other.ranges.every(([start, end]) => this.ranges.some(range => range[0] <= start && end <= range[1]));
+  }
+
+  /**
+   * Copies the coordinates of `subset` out of coordinates holding the atoms of `source`
+   * (null for all atoms). `source` must contain `subset`.
+   */
+  static extract(coords: Float32Array, source: AtomSelection | null, subset: AtomSelection): Float32Array {
+    const result = new Float32Array(subset.atomCount * 3);
+    let offset = 0;
+    for (const [start, end] of subset.ranges) {
+      const sourceStart = source ? source.indexOf(start) : start;
+      result.set(coords.subarray(sourceStart * 3, (sourceStart + end - start) * 3), offset * 3);
+      offset += end - start;
+    }
+    return result;
+  }
+
+  // Position of atom `atomIndex` within the packed coordinates of this selection.
+  private indexOf(atomIndex: number): number {
+    let offset = 0;
+    for (const [start, end] of this.ranges) {
+      if (atomIndex < end) return offset + atomIndex - start;
+      offset += end - start;
+    }
+    throw new Error(`Atom ${atomIndex} is not in the selection.`);
+  }
+}
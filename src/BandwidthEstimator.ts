@@ -0,0 +1,55 @@
+export type BandwidthEstimate = {
+  latencyMs: number; // Fixed cost of a request, independent of its size
+  bytesPerSecond: number;
+};
+
+// Number of recent requests the estimate is based on.
+const SAMPLE_COUNT = 16;
+
+/**
+ * Estimates round-trip latency and throughput of a data source from recent requests by
+ * fitting `durationMs = latencyMs + bytes / bytesPerSecond * 1000` to them.
+ */
+export class BandwidthEstimator {
+  private samples: { bytes: number; durationMs: number }[] = [];
+  private lastEstimate: BandwidthEstimate | null = null;
+
+  record(bytes: number, durationMs: number): void {
+    this.samples.push({ bytes, durationMs });
+    if (this.samples.length > SAMPLE_COUNT) {
+      this.samples.shift();
+    }
+  }
+
+  /**
+   * Returns null until the samples differ enough in size to tell latency from transfer time.
+   * Once they stop differing (e.g. many requests of one chunk size), the last estimate is kept.
+   */
+  getEstimate(): BandwidthEstimate | null {
+    const samples = this.samples;
+    const n = samples.length;
+    if (n < 2) return this.lastEstimate;
+
+    let sumBytes = 0, sumDuration = 0;
+    for (const { bytes, durationMs } of samples) {
+      sumBytes += bytes;
+      sumDuration += durationMs;
+    }
+    const meanBytes = sumBytes / n;
+    const meanDuration = sumDuration / n;
+
+    let covariance = 0, variance = 0;
+    for (const { bytes, durationMs } of samples) {
+      covariance += (bytes - meanBytes) * (durationMs - meanDuration);
+      variance += (bytes - meanBytes) ** 2;
+    }
+    const msPerByte = variance > 0 ? covariance / variance : 0;
+    const latencyMs = meanDuration - msPerByte * meanBytes;
+
+    if (msPerByte <= 0 || latencyMs < 0) {
+      return this.lastEstimate; // Samples of one size, or too noisy to fit
+    }
+    this.lastEstimate = { latencyMs, bytesPerSecond: 1000 / msPerByte };
+    return this.lastEstimate;
+  }
+}
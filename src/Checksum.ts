@@ -0,0 +1,26 @@
+// CRC-32 (IEEE 802.3), as used by zip and PNG.
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * Computes the CRC-32 of the bytes of `views`, as if they were concatenated.
+ */
+export function crc32(...views: ArrayBufferView[]): number {
+  let crc = 0xFFFFFFFF;
+  for (const view of views) {
+    const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+    for (let i = 0; i < bytes.length; i++) {
+      crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+    }
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
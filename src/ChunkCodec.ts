@@ -0,0 +1,241 @@
+import { FrameData } from './TrajectoryProxy';
+
+/**
+ * A chunk as stored in L2. Boxes and times are kept as they are; the coordinates of all frames
+ * are encoded together by the codec named in `codec`. Frames may differ in size (variable atom
+ * counts, box-less frames), so the lengths of each frame's coordinates and box are kept too.
+ */
+export type EncodedChunk = {
+  codec: string;
+  frameCount: number;
+  coordLengths: Uint32Array; // Values per frame, i.e. 3 * its atom count
+  boxLengths: Uint32Array; // Values per frame, 0 for frames without a box
+  boxes: Float32Array; // The boxes of all frames, back to back
+  times?: Float64Array; // Per frame, NaN for frames without a time; absent if no frame has one
+  data: ArrayBuffer;
+};
+
+/**
+ * Converts chunks to and from their L2 representation. Encoding happens when a chunk is written
+ * to L2 and decoding when it is promoted to L1, so L1 always holds plain frames.
+ */
+export interface ChunkCodec {
+  // Identifies the codec and its settings. Chunks encoded under another name are not decoded.
+  readonly name: string;
+  encode: (frames: FrameData[]) => Promise<EncodedChunk>;
+  decode: (chunk: EncodedChunk) => Promise<FrameData[]>;
+}
+
+export function getEncodedSizeInBytes(chunk: EncodedChunk): number {
+  return chunk.coordLengths.byteLength + chunk.boxLengths.byteLength + chunk.boxes.byteLength
+    + (chunk.times?.byteLength ?? 0) + chunk.data.byteLength;
+}
+
+/**
+ * Stores coordinates as they are. Chunks only lose the per-frame overhead of structured clone.
+ */
+export class RawChunkCodec implements ChunkCodec {
+  public readonly name = 'raw';
+
+  public async encode(frames: FrameData[]): Promise<EncodedChunk> {
+    return packChunk(this.name, frames, concatCoords(frames).buffer);
+  }
+
+  public async decode(chunk: EncodedChunk): Promise<FrameData[]> {
+    return unpackChunk(chunk, new Float32Array(chunk.data));
+  }
+}
+
+/**
+ * Compresses coordinates without loss: the bytes of the floats are regrouped by significance,
+ * so the slowly varying sign and exponent bytes end up next to each other, and then deflated.
+ * With `delta`, each frame is first XORed with the frame before it, which leaves mostly zero
+ * high bytes for atoms that hardly moved. Chunks whose frames differ in size are not delta coded.
+ */
+export class LosslessChunkCodec implements ChunkCodec {
+  public readonly name: string;
+  private readonly delta: boolean;
+
+  constructor(options: { delta?: boolean } = {}) {
+    this.delta = options.delta ?? false;
+    this.name = this.delta ? 'lossless+delta' : 'lossless';
+  }
+
+  public async encode(frames: FrameData[]): Promise<EncodedChunk> {
+    const words = new Uint32Array(concatCoords(frames).buffer);
+    const valuesPerFrame = this.delta ? getUniformLength(frames.map(frame => frame.coords.length)) : 0;
+    if (valuesPerFrame > 0) {
+      // Backwards, so every frame is XORed with the original frame before it
+      for (let i = words.length - 1; i >= valuesPerFrame; i--) {
+        words[i] ^= words[i - valuesPerFrame];
+      }
+    }
+    return packChunk(this.name, frames, await deflate(shuffleBytes(words)));
+  }
+
+  public async decode(chunk: EncodedChunk): Promise<FrameData[]> {
+    const words = unshuffleBytes(await inflate(chunk.data));
+    const valuesPerFrame = this.delta ? getUniformLength(chunk.coordLengths) : 0;
+    if (valuesPerFrame > 0) {
+      for (let i = valuesPerFrame; i < words.length; i++) {
+        words[i] ^= words[i - valuesPerFrame];
+      }
+    }
+    return unpackChunk(chunk, new Float32Array(words.buffer));
+  }
+}
+
+/**
+ * Rounds coordinates to a fixed precision like XTC files do: `precision` 1000 keeps three
+ * decimals, i.e. an error of at most 0.0005 in the units of the coordinates. The integers are
+ * then deflated. With `delta`, each frame is stored as the difference to the frame before it,
+ * unless the frames of the chunk differ in size.
+ */
+export class QuantizedChunkCodec implements ChunkCodec {
+  public readonly name: string;
+  private readonly precision: number;
+  private readonly delta: boolean;
+
+  constructor(options: { precision?: number; delta?: boolean } = {}) {
+    this.precision = options.precision ?? 1000;
+    this.delta = options.delta ?? false;
+    if (!(this.precision > 0) || !Number.isFinite(this.precision)) {
+      throw new Error(`Invalid precision ${this.precision}: must be a positive number.`);
+    }
+    this.name = `quantized(${this.precision})${this.delta ? '+delta' : ''}`;
+  }
+
+  public async encode(frames: FrameData[]): Promise<EncodedChunk> {
+    const coords = concatCoords(frames);
+    const values = new Int32Array(coords.length);
+    for (let i = 0; i < coords.length; i++) {
+      values[i] = Math.round(coords[i] * this.precision);
+    }
+    const valuesPerFrame = this.delta ? getUniformLength(frames.map(frame => frame.coords.length)) : 0;
+    if (valuesPerFrame > 0) {
+      for (let i = values.length - 1; i >= valuesPerFrame; i--) {
+        values[i] -= values[i - valuesPerFrame];
+      }
+    }
+    // Zigzag encoding, so small negative values have zero high bytes as well
+    const words = new Uint32Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+      words[i] = (values[i] << 1) ^ (values[i] >> 31);
+    }
+    return packChunk(this.name, frames, await deflate(shuffleBytes(words)));
+  }
+
+  public async decode(chunk: EncodedChunk): Promise<FrameData[]> {
+    const words = unshuffleBytes(await inflate(chunk.data));
+    const values = new Int32Array(words.length);
+    for (let i = 0; i < words.length; i++) {
+      values[i] = (words[i] >>> 1) ^ -(words[i] & 1);
+    }
+    const valuesPerFrame = this.delta ? getUniformLength(chunk.coordLengths) : 0;
+    if (valuesPerFrame > 0) {
+      for (let i = valuesPerFrame; i < values.length; i++) {
+        values[i] += values[i - valuesPerFrame];
+      }
+    }
+    const coords = new Float32Array(values.length);
+    for (let i = 0; i < values.length; i++) {
+      coords[i] = values[i] / this.precision;
+    }
+    return unpackChunk(chunk, coords);
+  }
+}
+
+// The length all frames share, or 0 if they differ (or there are none). Delta coding needs equal lengths.
+function getUniformLength(lengths: ArrayLike<number>): number {
+  for (let i = 1; i < lengths.length; i++) {
+    if (lengths[i] !== lengths[0]) return 0;
+  }
+  return lengths.length > 0 ? lengths[0] : 0;
+}
+
+function concatArrays(arrays: Float32Array[]): Float32Array<ArrayBuffer> {
+  const result = new Float32Array(arrays.reduce((length, array) => length + array.length, 0));
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+}
+
+function concatCoords(frames: FrameData[]): Float32Array<ArrayBuffer> {
+  return concatArrays(frames.map(frame => frame.coords));
+}
+
+function packChunk(codec: string, frames: FrameData[], data: ArrayBuffer): EncodedChunk {
+  const chunk: EncodedChunk = {
+    codec,
+    frameCount: frames.length,
+    coordLengths: Uint32Array.from(frames, frame => frame.coords.length),
+    boxLengths: Uint32Array.from(frames, frame => frame.box.length),
+    boxes: concatArrays(frames.map(frame => frame.box)),
+    data,
+  };
+  if (frames.some(frame => frame.time !== undefined)) {
+    chunk.times = Float64Array.from(frames, frame => frame.time ?? NaN);
+  }
+  return chunk;
+}
+
+function unpackChunk(chunk: EncodedChunk, coords: Float32Array): FrameData[] {
+  const frames: FrameData[] = [];
+  let coordOffset = 0;
+  let boxOffset = 0;
+  for (let i = 0; i < chunk.frameCount; i++) {
+    const coordLength = chunk.coordLengths[i];
+    const boxLength = chunk.boxLengths[i];
+    if (coordOffset + coordLength > coords.length || boxOffset + boxLength > chunk.boxes.length) {
+      throw new Error(`Frame ${i} extends past the end of the encoded chunk.`);
+    }
+    const frame: FrameData = {
+      coords: coords.subarray(coordOffset, coordOffset + coordLength),
+      box: chunk.boxes.slice(boxOffset, boxOffset + boxLength),
+    };
+    coordOffset += coordLength;
+    boxOffset += boxLength;
+    const time = chunk.times?.[i];
+    if (time !== undefined && !Number.isNaN(time)) {
+      frame.time = time;
+    }
+    frames.push(frame);
+  }
+  return frames;
+}
+
+// Byte i of every word goes into the i-th quarter of the result.
+function shuffleBytes(words: Uint32Array): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(words.buffer, words.byteOffset, words.byteLength);
+  const shuffled = new Uint8Array(bytes.length);
+  for (let i = 0; i < words.length; i++) {
+    for (let b = 0; b < 4; b++) {
+      shuffled[b * words.length + i] = bytes[i * 4 + b];
+    }
+  }
+  return shuffled;
+}
+
+function unshuffleBytes(shuffled: Uint8Array): Uint32Array {
+  const count = shuffled.length / 4;
+  const bytes = new Uint8Array(shuffled.length);
+  for (let i = 0; i < count; i++) {
+    for (let b = 0; b < 4; b++) {
+      bytes[i * 4 + b] = shuffled[b * count + i];
+    }
+  }
+  return new Uint32Array(bytes.buffer);
+}
+
+async function deflate(bytes: Uint8Array<ArrayBuffer>): Promise<ArrayBuffer> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Response(stream).arrayBuffer();
+}
+
+async function inflate(data: ArrayBuffer): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
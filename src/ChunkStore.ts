@@ -0,0 +1,47 @@
+// Keys are chunk indices, plus a few string keys for bookkeeping records such as the L2 manifest.
+export type ChunkStoreKey = number | string;
+
+/**
+ * Defines the contract for an L2 storage backend used by the TrajectoryProxy.
+ * A store only persists values; the size budget and LRU order are managed by the proxy,
+ * so they behave the same on every backend.
+ * Each TrajectoryProxy needs its own ChunkStore instance.
+ */
+export interface ChunkStore {
+  /**
+   * Binds the store to a dataset namespace. Called once from TrajectoryProxy.init(),
+   * before any other method. Reopening the same namespace later must expose the same data.
+   */
+  open: (namespace: string) => Promise<void>;
+  get: <T>(key: ChunkStoreKey) => Promise<T | undefined>;
+  set: (key: ChunkStoreKey, value: unknown) => Promise<void>;
+  del: (key: ChunkStoreKey) => Promise<void>;
+  keys: () => Promise<ChunkStoreKey[]>;
+  clear: () => Promise<void>;
+  /**
+   * Deletes the open namespace together with all of its data, e.g. the IndexedDB database.
+   * The store must be opened again before further use.
+   */
+  drop: () => Promise<void>;
+  /**
+   * Optionally deletes the data of other namespaces that have not been opened for longer
+   * than maxAgeInMs. Resolves to the number of namespaces deleted.
+   */
+  collectGarbage?: (maxAgeInMs: number) => Promise<number>;
+  /**
+   * Whether stores opened on the same namespace in other tabs or workers see the same data.
+   * Proxies then share the namespace: they announce their changes and fetch each chunk once.
+   */
+  readonly shared?: boolean;
+  /**
+   * Whether the stored data counts against the origin's storage quota (navigator.storage).
+   * The proxy then caps its L2 budget to the quota that is left.
+   */
+  readonly usesStorageQuota?: boolean;
+}
+
+// Whether a store write failed because the storage is full: a QuotaExceededError in browsers, ENOSPC on Node.
+export function isQuotaExceededError(error: unknown): boolean {
+  const { name, code } = (error ?? {}) as { name?: string; code?: string };
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 'ENOSPC';
+}
@@ -0,0 +1,94 @@
+import { SourceUnavailableError } from './DataSourceErrors';
+
+/**
+ * - `available`: requests go through.
+ * - `unavailable`: too many consecutive transient failures; requests fail fast until the cooldown ends.
+ * - `probing`: the cooldown ended and a single trial request decides whether the source is back.
+ */
+export type SourceState = 'available' | 'unavailable' | 'probing';
+
+/**
+ * Stops hammering a data source that keeps failing with transient errors.
+ * Permanent errors (e.g. 404) prove the source is reachable, so they count as successes.
+ */
+export class CircuitBreaker {
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly onStateChange?: (state: SourceState) => void;
+
+  private state: SourceState = 'available';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  // Settles once the trial request in the 'probing' state has an outcome.
+  private probe: Promise<void> | null = null;
+  private settleProbe: (() => void) | null = null;
+
+  constructor(options: {
+    failureThreshold: number;
+    cooldownMs: number;
+    onStateChange?: (state: SourceState) => void;
+  }) {
+    this.failureThreshold = options.failureThreshold;
+    this.cooldownMs = options.cooldownMs;
+    this.onStateChange = options.onStateChange;
+  }
+
+  getState(): SourceState {
+    return this.state;
+  }
+
+  /**
+   * Call before each request. Rejects with SourceUnavailableError if the request must not be sent.
+   * While a trial request is in flight, other requests wait for its outcome.
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    for (;;) {
+      signal?.throwIfAborted();
+      if (this.state === 'unavailable') {
+        const remainingMs = this.openedAt + this.cooldownMs - Date.now();
+        if (remainingMs > 0) {
+          throw new SourceUnavailableError(remainingMs);
+        }
+        this.setState('probing');
+      }
+      if (this.state !== 'probing') return;
+      if (!this.probe) {
+        this.probe = new Promise(resolve => this.settleProbe = resolve);
+        return; // This request is the trial
+      }
+      await this.probe;
+    }
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.setState('available');
+    this.endProbe();
+  }
+
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.state === 'probing' || this.consecutiveFailures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+      this.setState('unavailable');
+    }
+    this.endProbe();
+  }
+
+  // The request was cancelled before it told us anything about the source.
+  release(): void {
+    this.endProbe();
+  }
+
+  private endProbe(): void {
+    this.settleProbe?.();
+    this.probe = null;
+    this.settleProbe = null;
+  }
+
+  private setState(state: SourceState): void {
+    if (this.state === state) return;
+    this.state = state;
+    this.onStateChange?.(state);
+  }
+}
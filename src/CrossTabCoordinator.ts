@@ -0,0 +1,68 @@
+// Messages exchanged between proxies that share an L2 namespace.
+export type CrossTabMessage =
+  | { type: 'chunkStored'; chunkKey: string; sizeInBytes: number }
+  | { type: 'chunksEvicted'; chunkKeys: string[] }
+  | { type: 'cleared' };
+
+const CHANNEL_PREFIX = 'ngl-proxy';
+const NAMESPACE_LOCK_PREFIX = 'ngl-proxy-namespace';
+const CHUNK_LOCK_PREFIX = 'ngl-proxy-chunk';
+
+/**
+ * Lets proxies in several tabs (or workers) share one L2 namespace. Changes to the shared store
+ * are announced over a BroadcastChannel, so every proxy indexes, and budgets, the chunks all of
+ * them stored. Where the Web Locks API is available, a chunk is fetched by one proxy at a time,
+ * and each proxy holds a shared lock on the namespace as its reference while it is open.
+ */
+export class CrossTabCoordinator {
+  private readonly namespace: string;
+  private readonly channel: BroadcastChannel;
+  private readonly locks: LockManager | null;
+  private releaseNamespace: () => void = () => {};
+  private namespaceLock: Promise<unknown> | undefined; // Settles once the reference is released
+
+  constructor(namespace: string, onMessage: (message: CrossTabMessage) => void) {
+    this.namespace = namespace;
+    this.channel = new BroadcastChannel(`${CHANNEL_PREFIX}:${namespace}`);
+    this.channel.onmessage = event => onMessage(event.data);
+    this.locks = typeof navigator !== 'undefined' && navigator.locks ? navigator.locks : null;
+
+    const released = new Promise<void>(resolve => this.releaseNamespace = resolve);
+    this.namespaceLock = this.locks?.request(`${NAMESPACE_LOCK_PREFIX}:${this.namespace}`, { mode: 'shared' }, () => released);
+  }
+
+  static isSupported(): boolean {
+    return typeof BroadcastChannel !== 'undefined';
+  }
+
+  announce(message: CrossTabMessage): void {
+    this.channel.postMessage(message);
+  }
+
+  /**
+   * Runs `callback` while holding the chunk's lock, so other proxies wait instead of fetching the
+   * same chunk. `contended` tells the callback that another proxy held the lock first and may have
+   * stored the chunk in the meantime.
+   */
+  async withChunkLock<T>(chunkKey: string, signal: AbortSignal, callback: (contended: boolean) => Promise<T>): Promise<T> {
+    if (!this.locks) return callback(false);
+    const name = `${CHUNK_LOCK_PREFIX}:${this.namespace}:${chunkKey}`;
+    const uncontended = await this.locks.request(name, { ifAvailable: true }, async lock => {
+      return lock ? { result: await callback(false) } : null;
+    });
+    if (uncontended) return uncontended.result;
+    return this.locks.request(name, { signal }, () => callback(true));
+  }
+
+  /**
+   * Releases this proxy's reference on the namespace. Resolves to true when no other proxy still
+   * holds one, i.e. when the namespace may be dropped.
+   */
+  async close(): Promise<boolean> {
+    this.channel.close();
+    this.releaseNamespace();
+    await this.namespaceLock;
+    if (!this.locks) return true;
+    return this.locks.request(`${NAMESPACE_LOCK_PREFIX}:${this.namespace}`, { ifAvailable: true }, lock => lock !== null);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Error a TrajectoryDataSource can throw to tell the proxy whether a failure is worth retrying.
+ * Without an explicit `transient` flag, it is derived from the HTTP status: network failures
+ * (no status), 408, 429 and 5xx are transient; other statuses are permanent.
+ */
+export class DataSourceError extends Error {
+  public readonly status?: number;
+  public readonly transient: boolean;
+
+  constructor(message: string, options: { status?: number; transient?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'DataSourceError';
+    this.status = options.status;
+    this.transient = options.transient ?? DataSourceError.isTransientStatus(options.status);
+  }
+
+  private static isTransientStatus(status?: number): boolean {
+    if (status === undefined) return true;
+    return status === 408 || status === 429 || status >= 500;
+  }
+}
+
+/**
+ * Thrown without contacting the data source while the circuit breaker considers it unavailable.
+ */
+export class SourceUnavailableError extends Error {
+  // Milliseconds until the proxy will probe the data source again.
+  public readonly retryAfterMs: number;
+
+  constructor(retryAfterMs: number) {
+    super(`Data source is unavailable. Retrying in ${Math.ceil(retryAfterMs / 1000)}s.`);
+    this.name = 'SourceUnavailableError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Thrown in offline mode for frames that are in neither cache level, instead of contacting the
+ * data source.
+ */
+export class FrameNotCachedError extends Error {
+  constructor(start: number, end: number) {
+    super(end - start === 1
+      ? `Frame ${start} is not cached and the proxy is offline.`
+      : `Frames ${start} to ${end - 1} are not cached and the proxy is offline.`);
+    this.name = 'FrameNotCachedError';
+  }
+}
+
+/**
+ * Default classification: DataSourceErrors carry their own flag, and a TypeError is what
+ * fetch() throws on network failures. Everything else (e.g. parse errors) is permanent.
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof DataSourceError) return error.transient;
+  return error instanceof TypeError;
+}
@@ -0,0 +1,119 @@
+/**
+ * - `foreground`: a caller is waiting for the frames right now.
+ * - `near`: prefetch of the chunk the playhead reaches next.
+ * - `background`: any other prefetch or fill work.
+ */
+export type FetchPriority = 'foreground' | 'near' | 'background';
+
+const PRIORITY_RANK: Record<FetchPriority, number> = { foreground: 0, near: 1, background: 2 };
+
+// The priority of a fetch. It is read whenever the scheduler decides, so raising it takes effect immediately.
+export type FetchTicket = { priority: FetchPriority };
+
+export type FetchSlot = {
+  // Aborts when the request itself is aborted or when the slot is preempted.
+  signal: AbortSignal;
+  release: () => void;
+};
+
+type Waiter = {
+  ticket: FetchTicket;
+  signal: AbortSignal;
+  resolve: (slot: FetchSlot) => void;
+  reject: (reason: unknown) => void;
+  onAbort: () => void;
+};
+
+type RunningSlot = { ticket: FetchTicket; controller: AbortController };
+
+/**
+ * Limits concurrent data source requests and grants free slots by priority, first come first
+ * served within a priority. A queued foreground request preempts running prefetches, background
+ * work before near work.
+ */
+export class FetchScheduler {
+  private maxConcurrent: number;
+  private running: RunningSlot[] = [];
+  private queue: Waiter[] = [];
+
+  constructor(maxConcurrent: number) {
+    this.maxConcurrent = Math.max(1, maxConcurrent);
+  }
+
+  get activeCount(): number {
+    return this.running.length;
+  }
+
+  get queuedCount(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Waits for a free slot. If the slot is preempted, its signal aborts while `signal` does not;
+   * the caller should then release it and acquire a new one.
+   */
+  acquire(ticket: FetchTicket, signal: AbortSignal): Promise<FetchSlot> {
+    return new Promise((resolve, reject) => {
+      signal.throwIfAborted();
+      const waiter: Waiter = {
+        ticket, signal, resolve, reject,
+        onAbort: () => {
+          this.queue = this.queue.filter(queued => queued !== waiter);
+          reject(signal.reason);
+        },
+      };
+      signal.addEventListener('abort', waiter.onAbort, { once: true });
+      this.queue.push(waiter);
+      this.dispatch();
+    });
+  }
+
+  // Re-evaluates the queue after a ticket's priority changed.
+  reprioritize(): void {
+    this.dispatch();
+  }
+
+  private dispatch(): void {
+    this.queue.sort((a, b) => PRIORITY_RANK[a.ticket.priority] - PRIORITY_RANK[b.ticket.priority]);
+    while (this.queue.length > 0 && this.running.length < this.maxConcurrent) {
+      this.grant(this.queue.shift()!);
+    }
+    const waitingForeground = this.queue.filter(waiter => waiter.ticket.priority === 'foreground').length;
+    const freeing = this.running.filter(slot => slot.controller.signal.aborted).length;
+    for (let i = freeing; i < waitingForeground; i++) {
+      if (!this.preempt('background') && !this.preempt('near')) break;
+    }
+  }
+
+  private grant(waiter: Waiter): void {
+    waiter.signal.removeEventListener('abort', waiter.onAbort);
+    const running: RunningSlot = { ticket: waiter.ticket, controller: new AbortController() };
+    const onAbort = () => running.controller.abort(waiter.signal.reason);
+    waiter.signal.addEventListener('abort', onAbort, { once: true });
+    this.running.push(running);
+
+    let released = false;
+    waiter.resolve({
+      signal: running.controller.signal,
+      release: () => {
+        if (released) return;
+        released = true;
+        waiter.signal.removeEventListener('abort', onAbort);
+        this.running = this.running.filter(slot => slot !== running);
+        this.dispatch();
+      },
+    });
+  }
+
+  // Aborts the most recently started request of `priority` to make room for foreground work.
+  private preempt(priority: FetchPriority): boolean {
+    for (let i = this.running.length - 1; i >= 0; i--) {
+      const slot = this.running[i];
+      if (slot.ticket.priority === priority && !slot.controller.signal.aborted) {
+        slot.controller.abort(new DOMException('Preempted by a foreground request.', 'AbortError'));
+        return true;
+      }
+    }
+    return false;
+  }
+}
@@ -0,0 +1,171 @@
+import { ChunkStore, ChunkStoreKey } from './ChunkStore';
+
+// Node built-ins are loaded lazily so that importing this module does not break browser bundles.
+const loadFs = () => import('node:fs/promises');
+const loadPath = () => import('node:path');
+const loadV8 = () => import('node:v8');
+const loadCrypto = () => import('node:crypto');
+
+// Numeric keys are kept in the file name. String keys (chunk keys with an atom selection
+// can be longer than a file name may be) are hashed into it and written at the start of the
+// file instead: a 4-byte length, then the key in UTF-8.
+const KEY_LENGTH_BYTES = 4;
+
+function keyToFileName(key: ChunkStoreKey, crypto: typeof import('node:crypto')): string {
+  return typeof key === 'number'
+    ? `n-${key}.bin`
+    : `s-${crypto.createHash('sha256').update(key).digest('hex')}.bin`;
+}
+
+function encodeKeyHeader(key: string): Buffer {
+  const keyBytes = Buffer.from(key, 'utf8');
+  const header = Buffer.alloc(KEY_LENGTH_BYTES + keyBytes.length);
+  header.writeUInt32LE(keyBytes.length, 0);
+  keyBytes.copy(header, KEY_LENGTH_BYTES);
+  return header;
+}
+
+// Returns the key stored in the header and the offset of the value that follows it.
+function decodeKeyHeader(buffer: Buffer): { key: string; valueOffset: number } {
+  const keyLength = buffer.readUInt32LE(0);
+  const valueOffset = KEY_LENGTH_BYTES + keyLength;
+  return { key: buffer.toString('utf8', KEY_LENGTH_BYTES, valueOffset), valueOffset };
+}
+
+// Reads only the header, so that listing the keys does not load every chunk.
+async function readKeyHeader(fs: typeof import('node:fs/promises'), filePath: string): Promise<string | null> {
+  let file;
+  try {
+    file = await fs.open(filePath, 'r');
+  } catch (error) {
+    // Deleted since the directory was listed.
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw error;
+  }
+  try {
+    const lengthBytes = Buffer.alloc(KEY_LENGTH_BYTES);
+    if ((await file.read(lengthBytes, 0, KEY_LENGTH_BYTES, 0)).bytesRead < KEY_LENGTH_BYTES) return null;
+    const keyBytes = Buffer.alloc(lengthBytes.readUInt32LE(0));
+    const { bytesRead } = await file.read(keyBytes, 0, keyBytes.length, KEY_LENGTH_BYTES);
+    return bytesRead < keyBytes.length ? null : keyBytes.toString('utf8');
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * A ChunkStore for Node that keeps one directory per namespace under `rootDir`,
+ * one file per key. Values are serialized with `v8.serialize`, Node's equivalent
+ * of structured clone, so typed arrays are stored as binary.
+ */
+export class FileSystemChunkStore implements ChunkStore {
+  public readonly shared = true; // Worker threads using the same rootDir see the same files
+  private readonly rootDir: string;
+  private dir: string | null = null;
+
+  constructor(options: { rootDir: string }) {
+    this.rootDir = options.rootDir;
+  }
+
+  public async open(namespace: string): Promise<void> {
+    const [fs, path, crypto] = await Promise.all([loadFs(), loadPath(), loadCrypto()]);
+    // Namespaces are usually URLs, so they are hashed into a safe directory name.
+    const dirName = crypto.createHash('sha256').update(namespace).digest('hex');
+    this.dir = path.join(this.rootDir, dirName);
+    await fs.mkdir(this.dir, { recursive: true });
+    // The directory mtime records the last use for garbage collection.
+    const now = new Date();
+    await fs.utimes(this.dir, now, now);
+  }
+
+  public async get<T>(key: ChunkStoreKey): Promise<T | undefined> {
+    const [fs, v8] = await Promise.all([loadFs(), loadV8()]);
+    try {
+      const buffer = await fs.readFile(await this.getFilePath(key));
+      if (typeof key === 'number') return v8.deserialize(buffer) as T;
+      const { key: storedKey, valueOffset } = decodeKeyHeader(buffer);
+      // Guards against a hash collision.
+      if (storedKey !== key) return undefined;
+      return v8.deserialize(buffer.subarray(valueOffset)) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  public async set(key: ChunkStoreKey, value: unknown): Promise<void> {
+    const [fs, v8] = await Promise.all([loadFs(), loadV8()]);
+    const filePath = await this.getFilePath(key);
+    // Write then rename, so a crash never leaves a half-written entry behind.
+    // Temp names are unique because concurrent writes to the same key are allowed.
+    const tempPath = `${filePath}.${Date.now()}-${Math.random().toString(36).slice(2)}.tmp`;
+    const data = v8.serialize(value);
+    await fs.writeFile(tempPath, typeof key === 'number' ? data : [encodeKeyHeader(key), data]);
+    await fs.rename(tempPath, filePath);
+  }
+
+  public async del(key: ChunkStoreKey): Promise<void> {
+    const fs = await loadFs();
+    await fs.rm(await this.getFilePath(key), { force: true });
+  }
+
+  public async keys(): Promise<ChunkStoreKey[]> {
+    const [fs, path] = await Promise.all([loadFs(), loadPath()]);
+    const dir = this.getDir();
+    const keys: ChunkStoreKey[] = [];
+    for (const fileName of await fs.readdir(dir)) {
+      const match = /^([ns])-(.*)\.bin$/.exec(fileName);
+      if (!match) continue;
+      if (match[1] === 'n') {
+        keys.push(Number(match[2]));
+        continue;
+      }
+      const key = await readKeyHeader(fs, path.join(dir, fileName));
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+
+  public async clear(): Promise<void> {
+    const fs = await loadFs();
+    const dir = this.getDir();
+    await fs.rm(dir, { recursive: true, force: true });
+    await fs.mkdir(dir, { recursive: true });
+  }
+
+  public async drop(): Promise<void> {
+    if (!this.dir) return;
+    const fs = await loadFs();
+    const dir = this.dir;
+    this.dir = null;
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  public async collectGarbage(maxAgeInMs: number): Promise<number> {
+    const [fs, path] = await Promise.all([loadFs(), loadPath()]);
+    const now = Date.now();
+    let deleted = 0;
+    for (const entry of await fs.readdir(this.rootDir, { withFileTypes: true })) {
+      const dir = path.join(this.rootDir, entry.name);
+      if (!entry.isDirectory() || dir === this.dir) continue;
+      const { mtimeMs } = await fs.stat(dir);
+      if (now - mtimeMs > maxAgeInMs) {
+        await fs.rm(dir, { recursive: true, force: true });
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  private getDir(): string {
+    if (!this.dir) {
+      throw new Error("FileSystemChunkStore is not open. Call open() first.");
+    }
+    return this.dir;
+  }
+
+  private async getFilePath(key: ChunkStoreKey): Promise<string> {
+    const [path, crypto] = await Promise.all([loadPath(), loadCrypto()]);
+    return path.join(this.getDir(), keyToFileName(key, crypto));
+  }
+}
@@ -0,0 +1,103 @@
+import { get, set, del, keys, entries, clear, createStore, UseStore } from 'idb-keyval';
+import { ChunkStore, ChunkStoreKey } from './ChunkStore';
+
+const DB_PREFIX = 'ngl-proxy-db';
+const STORE_NAME = 'chunks';
+// Every database is recorded here with its last use, so stale ones can be garbage-collected.
+const REGISTRY_DB_NAME = 'ngl-proxy-registry';
+const REGISTRY_STORE_NAME = 'databases';
+
+function deleteDatabase(dbName: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(dbName);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    // Still open in another tab; the deletion completes once that tab closes it.
+    request.onblocked = () => resolve();
+  });
+}
+
+/**
+ * A ChunkStore backed by IndexedDB (via idb-keyval), with one database per namespace.
+ * Values are stored through structured clone.
+ */
+export class IndexedDBChunkStore implements ChunkStore {
+  public readonly shared = true; // Every tab of the origin opens the same database
+  public readonly usesStorageQuota = true;
+  private readonly registry: UseStore;
+  private dbName: string | null = null;
+  private store: UseStore | null = null;
+
+  constructor() {
+    this.registry = createStore(REGISTRY_DB_NAME, REGISTRY_STORE_NAME);
+  }
+
+  public async open(namespace: string): Promise<void> {
+    this.dbName = `${DB_PREFIX}:${namespace}`;
+    this.store = createStore(this.dbName, STORE_NAME);
+    await set(this.dbName, Date.now(), this.registry);
+  }
+
+  public get<T>(key: ChunkStoreKey): Promise<T | undefined> {
+    return get<T>(key, this.getStore());
+  }
+
+  public set(key: ChunkStoreKey, value: unknown): Promise<void> {
+    return set(key, value, this.getStore());
+  }
+
+  public del(key: ChunkStoreKey): Promise<void> {
+    return del(key, this.getStore());
+  }
+
+  public keys(): Promise<ChunkStoreKey[]> {
+    return keys<ChunkStoreKey>(this.getStore());
+  }
+
+  public clear(): Promise<void> {
+    return clear(this.getStore());
+  }
+
+  public async drop(): Promise<void> {
+    if (!this.dbName) return;
+    const dbName = this.dbName;
+    this.dbName = null;
+    this.store = null;
+    await deleteDatabase(dbName);
+    await del(dbName, this.registry);
+  }
+
+  public async collectGarbage(maxAgeInMs: number): Promise<number> {
+    const now = Date.now();
+    const stale: string[] = [];
+    for (const [dbName, lastUsed] of await entries<string, number>(this.registry)) {
+      if (dbName !== this.dbName && now - lastUsed > maxAgeInMs) {
+        stale.push(dbName);
+      }
+    }
+
+    // Session databases created before the registry existed carry their creation time in the name.
+    if (typeof indexedDB.databases === 'function') {
+      const legacyPattern = new RegExp(`^${DB_PREFIX}-(\\d+)-`);
+      for (const { name } of await indexedDB.databases()) {
+        const match = name ? legacyPattern.exec(name) : null;
+        if (match && !stale.includes(name!) && now - Number(match[1]) > maxAgeInMs) {
+          stale.push(name!);
+        }
+      }
+    }
+
+    for (const dbName of stale) {
+      await deleteDatabase(dbName);
+      await del(dbName, this.registry);
+    }
+    return stale.length;
+  }
+
+  private getStore(): UseStore {
+    if (!this.store) {
+      throw new Error("IndexedDBChunkStore is not open. Call open() first.");
+    }
+    return this.store;
+  }
+}
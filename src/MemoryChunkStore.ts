@@ -0,0 +1,38 @@
+import { ChunkStore, ChunkStoreKey } from './ChunkStore';
+
+/**
+ * A ChunkStore that keeps everything in memory. Nothing survives a reload, which makes it
+ * suitable for tests, Node scripts and environments without IndexedDB.
+ * Values are stored by reference.
+ */
+export class MemoryChunkStore implements ChunkStore {
+  private entries = new Map<ChunkStoreKey, unknown>();
+
+  public async open(_namespace: string): Promise<void> {
+    this.entries.clear();
+  }
+
+  public async get<T>(key: ChunkStoreKey): Promise<T | undefined> {
+    return this.entries.get(key) as T | undefined;
+  }
+
+  public async set(key: ChunkStoreKey, value: unknown): Promise<void> {
+    this.entries.set(key, value);
+  }
+
+  public async del(key: ChunkStoreKey): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  public async keys(): Promise<ChunkStoreKey[]> {
+    return [...this.entries.keys()];
+  }
+
+  public async clear(): Promise<void> {
+    this.entries.clear();
+  }
+
+  public async drop(): Promise<void> {
+    this.entries.clear();
+  }
+}
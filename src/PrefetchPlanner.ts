@@ -0,0 +1,87 @@
+export type PrefetchOptions = {
+  depth: number; // Chunks prefetched ahead of the playhead at low speed
+  maxDepth: number; // Upper bound on chunks ahead when playing fast
+  behind: number; // Chunks kept warm behind the playhead, for direction changes
+  lookaheadMs: number; // How far ahead in time the chunks ahead should reach at the current speed
+};
+
+// Number of recent getFrame calls used to infer direction and speed.
+const HISTORY_SIZE = 8;
+
+/**
+ * Infers playback direction and speed from recent frame requests and decides which chunks
+ * to prefetch. Jumps larger than a chunk are treated as seeks and restart the inference.
+ */
+export class PrefetchPlanner {
+  private readonly options: PrefetchOptions;
+  private framesPerChunk: number;
+  private history: { frameIndex: number; time: number }[] = [];
+
+  constructor(options: PrefetchOptions & { framesPerChunk: number }) {
+    this.options = { ...options };
+    this.framesPerChunk = options.framesPerChunk;
+  }
+
+  // Called when the chunk size adapts; plans are made in chunks of the new size from then on.
+  setFramesPerChunk(framesPerChunk: number): void {
+    this.framesPerChunk = framesPerChunk;
+  }
+
+  // Sets the minimum number of chunks ahead, e.g. more when fetching a chunk takes longer than playing it.
+  setDepth(depth: number): void {
+    this.options.depth = Math.min(depth, this.options.maxDepth);
+  }
+
+  record(frameIndex: number, time = performance.now()): void {
+    const last = this.history[this.history.length - 1];
+    if (last?.frameIndex === frameIndex) return;
+    if (last && Math.abs(frameIndex - last.frameIndex) > this.framesPerChunk) {
+      this.history = [];
+    }
+    this.history.push({ frameIndex, time });
+    if (this.history.length > HISTORY_SIZE) {
+      this.history.shift();
+    }
+  }
+
+  /**
+   * Direction of travel (1 forward, -1 backward, 0 unknown) and speed in frames per second.
+   * Only the most recent run in one direction counts, so 'bounce' playback flips immediately.
+   */
+  getMotion(): { direction: 1 | -1 | 0; framesPerSecond: number } {
+    const history = this.history;
+    if (history.length < 2) return { direction: 0, framesPerSecond: 0 };
+
+    const last = history[history.length - 1];
+    const direction = Math.sign(last.frameIndex - history[history.length - 2].frameIndex) as 1 | -1;
+    let first = history.length - 2;
+    while (first > 0 && Math.sign(history[first].frameIndex - history[first - 1].frameIndex) === direction) {
+      first--;
+    }
+
+    const elapsedMs = last.time - history[first].time;
+    const framesPerSecond = elapsedMs > 0 ? Math.abs(last.frameIndex - history[first].frameIndex) / elapsedMs * 1000 : 0;
+    return { direction, framesPerSecond };
+  }
+
+  /**
+   * Chunks to prefetch around `currentChunkIndex`, most urgent first.
+   */
+  plan(currentChunkIndex: number, totalChunks: number): number[] {
+    const { depth, maxDepth, behind, lookaheadMs } = this.options;
+    const { direction, framesPerSecond } = this.getMotion();
+    const step = direction === -1 ? -1 : 1; // Playback starts forward when unknown
+
+    const chunksForLookahead = Math.ceil(framesPerSecond * lookaheadMs / 1000 / this.framesPerChunk);
+    const ahead = Math.max(depth, Math.min(maxDepth, chunksForLookahead));
+
+    const aheadChunks: number[] = [];
+    for (let i = 1; i <= ahead; i++) aheadChunks.push(currentChunkIndex + i * step);
+    const behindChunks: number[] = [];
+    for (let i = 1; i <= behind; i++) behindChunks.push(currentChunkIndex - i * step);
+
+    // The next chunk in the direction of travel comes first, then the ones behind stay warm.
+    return [...aheadChunks.slice(0, 1), ...behindChunks, ...aheadChunks.slice(1)]
+      .filter(chunkIndex => chunkIndex >= 0 && chunkIndex < totalChunks);
+  }
+}
@@ -0,0 +1,133 @@
+export type LengthUnit = 'angstrom' | 'nanometer';
+export type TimeUnit = 'fs' | 'ps' | 'ns';
+
+export type BoxType = 'none' | 'orthorhombic' | 'triclinic';
+
+/**
+ * What a TrajectoryDataSource knows about its trajectory. Only frameCount is required.
+ */
+export type TrajectoryMetadata = {
+  frameCount: number;
+  atomCount?: number;
+  deltaTime?: number; // Time between consecutive frames, in units.time
+  timeOffset?: number; // Time of frame 0, in units.time
+  box?: {
+    type: BoxType;
+    periodic: [boolean, boolean, boolean]; // Along the three box vectors
+  };
+  units?: {
+    length: LengthUnit; // Of coordinates and box
+    time: TimeUnit; // Picoseconds when omitted, as in NGL
+  };
+  source?: {
+    identity: string; // e.g. the trajectory's URL
+    version?: string; // e.g. an ETag; changes whenever the data does
+  };
+};
+
+const LENGTH_UNITS: LengthUnit[] = ['angstrom', 'nanometer'];
+const TIME_UNITS: TimeUnit[] = ['fs', 'ps', 'ns'];
+const BOX_TYPES: BoxType[] = ['none', 'orthorhombic', 'triclinic'];
+const PICOSECONDS_PER_UNIT: Record<TimeUnit, number> = { fs: 0.001, ps: 1, ns: 1000 };
+
+/**
+ * Thrown for metadata that does not describe a valid trajectory. `field` is the path of the
+ * offending property, e.g. 'box.periodic', or '' for the metadata itself.
+ */
+export class InvalidMetadataError extends Error {
+  public readonly field: string;
+
+  constructor(field: string, message: string) {
+    super(`Invalid trajectory metadata: ${field ? `'${field}' ` : ''}${message}`);
+    this.name = 'InvalidMetadataError';
+    this.field = field;
+  }
+}
+
+/**
+ * Checks metadata returned by a data source and returns it typed. Properties beyond those of
+ * TrajectoryMetadata are passed through unchecked.
+ */
+export function validateTrajectoryMetadata(value: unknown): TrajectoryMetadata {
+  if (!isObject(value)) {
+    throw new InvalidMetadataError('', `must be an object, got ${describe(value)}.`);
+  }
+  const { frameCount, atomCount, deltaTime, timeOffset, box, units, source } = value;
+  // init() samples frames to lay out chunks, so a trajectory needs at least one.
+  if (!Number.isInteger(frameCount) || (frameCount as number) < 1) {
+    throw new InvalidMetadataError('frameCount', `must be a positive integer, got ${describe(frameCount)}.`);
+  }
+  if (atomCount !== undefined && (!Number.isInteger(atomCount) || (atomCount as number) < 1)) {
+    throw new InvalidMetadataError('atomCount', `must be a positive integer, got ${describe(atomCount)}.`);
+  }
+  if (deltaTime !== undefined && (!Number.isFinite(deltaTime) || (deltaTime as number) < 0)) {
+    throw new InvalidMetadataError('deltaTime', `must be a non-negative finite number, got ${describe(deltaTime)}.`);
+  }
+  if (timeOffset !== undefined && !Number.isFinite(timeOffset)) {
+    throw new InvalidMetadataError('timeOffset', `must be a finite number, got ${describe(timeOffset)}.`);
+  }
+
+  if (box !== undefined) {
+    if (!isObject(box)) {
+      throw new InvalidMetadataError('box', `must be an object, got ${describe(box)}.`);
+    }
+    if (!BOX_TYPES.includes(box.type as BoxType)) {
+      throw new InvalidMetadataError('box.type', `must be one of ${BOX_TYPES.join(', ')}, got ${describe(box.type)}.`);
+    }
+    const { periodic } = box;
+    if (!Array.isArray(periodic) || periodic.length !== 3 || !periodic.every(axis => typeof axis === 'boolean')) {
+      throw new InvalidMetadataError('box.periodic', `must be three booleans, got ${describe(periodic)}.`);
+    }
+    if (box.type === 'none' && periodic.some(axis => axis)) {
+      throw new InvalidMetadataError('box.periodic', "must be all false without a box.");
+    }
+  }
+
+  if (units !== undefined) {
+    if (!isObject(units)) {
+      throw new InvalidMetadataError('units', `must be an object, got ${describe(units)}.`);
+    }
+    if (!LENGTH_UNITS.includes(units.length as LengthUnit)) {
+      throw new InvalidMetadataError('units.length', `must be one of ${LENGTH_UNITS.join(', ')}, got ${describe(units.length)}.`);
+    }
+    if (!TIME_UNITS.includes(units.time as TimeUnit)) {
+      throw new InvalidMetadataError('units.time', `must be one of ${TIME_UNITS.join(', ')}, got ${describe(units.time)}.`);
+    }
+  }
+
+  if (source !== undefined) {
+    if (!isObject(source)) {
+      throw new InvalidMetadataError('source', `must be an object, got ${describe(source)}.`);
+    }
+    if (typeof source.identity !== 'string' || source.identity === '') {
+      throw new InvalidMetadataError('source.identity', `must be a non-empty string, got ${describe(source.identity)}.`);
+    }
+    if (source.version !== undefined && typeof source.version !== 'string') {
+      throw new InvalidMetadataError('source.version', `must be a string, got ${describe(source.version)}.`);
+    }
+  }
+  return value as TrajectoryMetadata;
+}
+
+/**
+ * The time parameters NGL's Trajectory takes (`deltaTime` and `timeOffset`, in picoseconds),
+ * for those the metadata provides.
+ */
+export function toTrajectoryParameters(metadata: TrajectoryMetadata): { deltaTime?: number; timeOffset?: number } {
+  const scale = PICOSECONDS_PER_UNIT[metadata.units?.time ?? 'ps'];
+  const parameters: { deltaTime?: number; timeOffset?: number } = {};
+  if (metadata.deltaTime !== undefined) parameters.deltaTime = metadata.deltaTime * scale;
+  if (metadata.timeOffset !== undefined) parameters.timeOffset = metadata.timeOffset * scale;
+  return parameters;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describe(value: unknown): string {
+  if (typeof value === 'string') return `"${value}"`;
+  if (Array.isArray(value)) return `[${value.map(describe).join(', ')}]`;
+  if (isObject(value)) return 'an object';
+  return String(value);
+}
@@ -1,11 +1,26 @@
 
-import { get, set, del, createStore, UseStore } from 'idb-keyval';
+import { ChunkStore, isQuotaExceededError } from './ChunkStore';
+import { IndexedDBChunkStore } from './IndexedDBChunkStore';
+import { MemoryChunkStore } from './MemoryChunkStore';
+import { CircuitBreaker, SourceState } from './CircuitBreaker';
+import { DataSourceError, FrameNotCachedError, isTransientError } from './DataSourceErrors';
+import { TypedEventEmitter } from './TypedEventEmitter';
+import { PrefetchOptions, PrefetchPlanner } from './PrefetchPlanner';
+import { BandwidthEstimate, BandwidthEstimator } from './BandwidthEstimator';
+import { FetchPriority, FetchScheduler, FetchTicket } from './FetchScheduler';
+import { AtomSelection } from './AtomSelection';
+import { CrossTabCoordinator, CrossTabMessage } from './CrossTabCoordinator';
+import { ChunkCodec, EncodedChunk, RawChunkCodec, getEncodedSizeInBytes } from './ChunkCodec';
+import { crc32 } from './Checksum';
+import { ChunkEvent, ChunkRange, TrajectoryProxyEvents } from './TrajectoryProxyEvents';
+import { InvalidMetadataError, TrajectoryMetadata, toTrajectoryParameters, validateTrajectoryMetadata } from './TrajectoryMetadata';
 
 // A placeholder for the actual frame data structure.
 // Assuming FrameData is an object with a `byteLength` property for size calculation.
 export type FrameData = {
   coords: Float32Array;
   box: Float32Array;
+  time?: number; // Simulation time in ps, where the data source's format records it
 };
 // export type FrameData = any;
 
@@ -15,24 +30,229 @@ export type FrameData = {
  * This allows the TrajectoryProxy to be decoupled from the actual data fetching implementation.
  */
 export interface TrajectoryDataSource {
-  getMetadata: () => Promise<any>;
-  getFrames: (start: number, end: number) => Promise<FrameData[]>;
+  getMetadata: () => Promise<TrajectoryMetadata>;
+  /**
+   * Fetches frames [start, end), or every `options.stride`-th frame from start on, optionally with
+   * the coordinates of `options.atomIndices` only. The proxy aborts
+   * `signal` once nobody needs the frames any more (stale scrub targets, prefetches outside the
+   * playhead window, dispose()).
+   */
+  getFrames: (start: number, end: number, signal?: AbortSignal, options?: FrameRequestOptions) => Promise<FrameData[]>;
+  /**
+   * Whether getFrames honours `options.stride`. Otherwise the proxy never passes a stride and
+   * fetches strided chunks one frame per request.
+   */
+  supportsStride?: boolean;
+  /**
+   * Whether getFrames honours `options.atomIndices`. Otherwise the proxy fetches full frames
+   * and copies the selected atoms out of them.
+   */
+  supportsAtomIndices?: boolean;
+  /**
+   * Optional stable identity of the underlying dataset (e.g. url + version/ETag).
+   * When provided, the L2 cache persists across page reloads under this key.
+   * It must change whenever the remote data changes.
+   */
+  getIdentity?: () => Promise<string>;
+}
+
+export type FrameRequestOptions = {
+  stride?: number; // Frames start, start + stride, ... below end; 1 when omitted
+  // Sorted, disjoint, half-open [start, end) atom ranges whose coordinates to return, packed in
+  // index order (mdsrv's `atomIndices`); all atoms when omitted.
+  atomIndices?: number[][];
+};
+
+/**
+ * How failed `getFrames` calls are retried. Only transient errors are retried, with
+ * exponential backoff: roughly baseDelayMs, 2 * baseDelayMs, ... capped at maxDelayMs.
+ */
+export type RetryPolicy = {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  isTransient: (error: unknown) => boolean;
+};
+
+/**
+ * Snapshot of cache effectiveness and occupancy, as returned by TrajectoryProxy.getStats().
+ * Hits and misses count the chunk lookups made for getFrame() and getFrames() calls; prefetches are not counted.
+ */
+export type TrajectoryProxyStats = {
+  l1: { hits: number; misses: number; chunks: number; sizeInBytes: number; budgetInBytes: number };
+  l2: { hits: number; misses: number; chunks: number; sizeInBytes: number; budgetInBytes: number };
+  bytesTransferred: number; // Frame payload received from the data source
+  fetchCount: number; // Successful data source requests
+  averageFetchLatencyMs: number;
+  inFlightFetches: number;
+  queuedFetches: number; // Data source requests waiting for a free slot
+  framesPerChunk: number | null; // Current chunk size; null in transparent mode
+  bandwidth: BandwidthEstimate | null; // null until enough requests have been measured
+};
+
+/**
+ * Adapts the chunk size to the measured latency and throughput of the data source, so that
+ * fetching keeps ahead of playback while large chunks amortize the per-request latency.
+ */
+export type AdaptiveChunkSizeOptions = {
+  enabled: boolean;
+  minChunkSizeInBytes: number;
+  maxChunkSizeInBytes: number; // Lowered where needed so that the chunks around the playhead fit in L1
+  // Expected playback rate, e.g. 1000 / timeout of NGL's TrajectoryPlayer. Faster measured playback takes precedence.
+  playbackFramesPerSecond: number;
+};
+
+// A half-open frame range [start, end).
+export type FrameRange = { start: number; end: number };
+
+// Chunks hold 2^level frames, `stride` frames apart, and start at a multiple of 2^level * stride,
+// so a chunk is identified by its level, index and stride. When the chunk size adapts, chunks of
+// the old size remain addressable. Strided chunks serve subsampled playback. Chunks fetched for
+// an atom selection carry its key after an '@'.
+type ChunkKey = string;
+
+type ChunkLayout = { level: number; stride: number };
+
+function toChunkKey(level: number, index: number, stride = 1, selection: AtomSelection | null = null): ChunkKey {
+  // Contiguous full-frame chunks keep the key format of earlier manifests.
+  const key = stride === 1 ? `${level}:${index}` : `${level}:${index}:${stride}`;
+  return selection ? `${key}@${selection.key}` : key;
+}
+
+function parseChunkKey(key: ChunkKey): ChunkLayout & { index: number; selection: AtomSelection | null } {
+  const [layout, selectionKey] = key.split('@');
+  const [level, index, stride = 1] = layout.split(':').map(Number);
+  return { level, index, stride, selection: selectionKey ? AtomSelection.parse(selectionKey) : null };
+}
+
+// Persisted alongside the chunks so the in-memory L2 index can be rebuilt after a reload.
+type L2Manifest = {
+  version: number; // Manifests of an older chunk layout are discarded
+  codec: string; // Chunks encoded by another codec are discarded as well
+  // [chunkKey, encoded sizeInBytes] pairs, least recently used first.
+  chunks: [ChunkKey, number][];
+  // The validated metadata and what init() measured, so an offline init() need not contact the data source.
+  metadata?: TrajectoryMetadata | null;
+  frameSizeInBytes?: number | null;
+  atomCount?: number | null;
+};
+
+const L2_MANIFEST_KEY = 'manifest';
+const L2_MANIFEST_VERSION = 6;
+
+// Stored with every L2 chunk and checked on read, so a corrupt, truncated or mismatched entry
+// is refetched instead of served.
+type L2ChunkHeader = {
+  startFrame: number;
+  endFrame: number;
+  stride: number;
+  frameCount: number;
+  // Per frame, as frames may differ in size
+  atomCounts: number[];
+  boxLengths: number[];
+  byteLength: number; // Of the encoded chunk
+  checksum: number; // CRC-32 of the encoded chunk
+};
+
+type L2Entry = {
+  header: L2ChunkHeader;
+  chunk: EncodedChunk;
+};
+
+function getChecksum(chunk: EncodedChunk): number {
+  return crc32(chunk.coordLengths, chunk.boxLengths, chunk.boxes, ...(chunk.times ? [chunk.times] : []), new Uint8Array(chunk.data));
+}
+
+// Share of the free storage quota the L2 budget may take, leaving room for the store's own overhead.
+const STORAGE_QUOTA_HEADROOM = 0.8;
+
+// Chunks downloadAll() has in flight at once: enough for the default fetch slots, few enough that a
+// download that does not fit stops soon after L2 is full.
+const DOWNLOAD_CONCURRENCY = 4;
+
+// A fetch from the data source, shared by everyone waiting for the same chunk.
+type PendingFetch = {
+  promise: Promise<FrameData[]>;
+  controller: AbortController;
+  // Callers still waiting for the chunk; the prefetcher counts as one while it wants the chunk.
+  consumers: number;
+  isPrefetch: boolean;
+  ticket: FetchTicket; // Raised to 'foreground' as soon as a getFrame() call waits for the chunk
+  // With scrub-first fetching, the requested frame, fetched on its own at foreground priority before the rest of the chunk.
+  firstFrame?: { frameIndex: number; promise: Promise<FrameData> };
+};
+
+// Settles like `promise`, but rejects with the abort reason as soon as `signal` fires.
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// Payload size of frames as received, which is also the size they occupy in the caches.
+function getFramesSizeInBytes(frames: FrameData[]): number {
+  let size = 0;
+  for (const frame of frames) {
+    size += frame.coords.byteLength + frame.box.byteLength;
+  }
+  return size;
+}
+
+// Resolves after `ms`, or rejects with the abort reason as soon as `signal` fires.
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 // Internal node for the doubly linked list in the LRU cache.
 class LRUNode<K, V> {
-    constructor(public key: K, public value: V, public prev: LRUNode<K, V> | null = null, public next: LRUNode<K, V> | null = null) {}
+    constructor(public key: K, public value: V, public size: number, public prev: LRUNode<K, V> | null = null, public next: LRUNode<K, V> | null = null) {}
 }
 
 // Generic LRU Cache implementation using a Map and a doubly linked list.
+// Capacity is measured in the units of `sizeOf`, which counts items by default.
+// Entries for which `isPinned` holds are never evicted, even if the cache exceeds its capacity.
 class LRUCache<K, V> {
     private capacity: number;
+    private readonly sizeOf: (value: V) => number;
+    private readonly isPinned: (key: K) => boolean;
     private cache = new Map<K, LRUNode<K, V>>();
     private head: LRUNode<K, V> | null = null;
     private tail: LRUNode<K, V> | null = null;
+    private totalSize = 0;
 
-    constructor(capacity: number) {
+    constructor(capacity: number, sizeOf: (value: V) => number = () => 1, isPinned: (key: K) => boolean = () => false) {
         this.capacity = capacity;
+        this.sizeOf = sizeOf;
+        this.isPinned = isPinned;
+    }
+
+    get size(): number {
+        return this.totalSize;
+    }
+
+    get count(): number {
+        return this.cache.size;
     }
 
     get(key: K): V | undefined {
@@ -44,27 +264,65 @@ class LRUCache<K, V> {
         return undefined;
     }
 
-    set(key: K, value: V): { evicted?: { key: K, value: V } } {
-        let evicted;
+    // Inserts or updates an entry, then evicts least recently used entries until the cache fits.
+    // An entry larger than the whole capacity is evicted as well.
+    set(key: K, value: V): { evicted: { key: K, value: V }[] } {
+        const size = this.sizeOf(value);
         if (this.cache.has(key)) {
             const node = this.cache.get(key)!;
+            this.totalSize += size - node.size;
             node.value = value;
+            node.size = size;
             this.moveToHead(node);
         } else {
-            const node = new LRUNode(key, value);
+            const node = new LRUNode(key, value, size);
             this.cache.set(key, node);
             this.addToHead(node);
-            if (this.cache.size > this.capacity) {
-                evicted = this.evictTail();
-            }
+            this.totalSize += size;
         }
-        return { evicted };
+        return { evicted: this.evictToCapacity() };
     }
     
     has(key: K): boolean {
         return this.cache.has(key);
     }
 
+    // Reads a value without updating its recency.
+    peek(key: K): V | undefined {
+        return this.cache.get(key)?.value;
+    }
+
+    delete(key: K): boolean {
+        const node = this.cache.get(key);
+        if (!node) return false;
+        this.removeNode(node);
+        this.cache.delete(key);
+        this.totalSize -= node.size;
+        return true;
+    }
+
+    // Changes the capacity, evicting least recently used entries until the cache fits.
+    setCapacity(capacity: number): { key: K, value: V }[] {
+        this.capacity = capacity;
+        return this.evictToCapacity();
+    }
+
+    clear(): void {
+        this.cache.clear();
+        this.head = null;
+        this.tail = null;
+        this.totalSize = 0;
+    }
+
+    // Entries ordered from least to most recently used; re-inserting them in this order restores the LRU order.
+    entries(): [K, V][] {
+        const result: [K, V][] = [];
+        for (let node = this.tail; node; node = node.prev) {
+            result.push([node.key, node.value]);
+        }
+        return result;
+    }
+
     private addToHead(node: LRUNode<K, V>) {
         node.next = this.head;
         node.prev = null;
@@ -95,98 +353,534 @@ class LRUCache<K, V> {
         this.addToHead(node);
     }
 
-    private evictTail(): { key: K, value: V } | undefined {
-        const tail = this.tail;
-        if (tail) {
-            this.removeNode(tail);
-            this.cache.delete(tail.key);
-            return { key: tail.key, value: tail.value };
+    private evictToCapacity(): { key: K, value: V }[] {
+        const evicted: { key: K, value: V }[] = [];
+        // From the least recently used entry on, passing over pinned ones.
+        for (let node = this.tail; node && this.totalSize > this.capacity;) {
+            const prev = node.prev;
+            if (!this.isPinned(node.key)) {
+                this.removeNode(node);
+                this.cache.delete(node.key);
+                this.totalSize -= node.size;
+                evicted.push({ key: node.key, value: node.value });
+            }
+            node = prev;
         }
-        return undefined;
+        return evicted;
     }
 }
 
 
 /**
- * A proxy for a remote trajectory file that provides a two-level (memory, IndexedDB)
+ * A proxy for a remote trajectory file that provides a two-level (memory, pluggable ChunkStore)
  * cache, pre-fetching, and atomic, transactional data access.
  */
-export class TrajectoryProxy {
+export class TrajectoryProxy extends TypedEventEmitter<TrajectoryProxyEvents> {
     private readonly dataSource: TrajectoryDataSource;
     private readonly targetChunkSizeInBytes: number;
-    private readonly l1CacheSizeInChunks: number;
-    private readonly l2CacheSizeInBytes: number;
+    private l1CacheSizeInBytes: number;
+    private l2CacheSizeInBytes: number;
+    private readonly l2MaxAgeInMs: number;
+    private readonly persistL2: boolean;
+    private l2QuotaInBytes = Infinity; // Cap on the L2 budget from the storage quota
+    private readonly retryPolicy: RetryPolicy;
+    private readonly circuitBreaker: CircuitBreaker;
+    private readonly fetchScheduler: FetchScheduler;
 
-    private l1Cache: LRUCache<number, FrameData[]>;
-    private l2Cache: LRUCache<number, { size: number }>; // L2 stores metadata (size) in memory
-    private l2Store: UseStore;
-    private l2CurrentSizeInBytes = 0;
+    // Both levels are budgeted in bytes, measured from the frames actually received.
+    private l1Cache: LRUCache<ChunkKey, FrameData[]>;
+    private l2Cache: LRUCache<ChunkKey, { size: number }>; // L2 stores metadata (size) in memory
+    private l2Store: ChunkStore; // Opened in init, once the dataset identity is known
+    private readonly shareAcrossTabs: boolean;
+    private readonly l2Codec: ChunkCodec;
+    private coordinator: CrossTabCoordinator | null = null; // Set while the L2 namespace is shared
 
-    private metadata: any | null = null;
-    private frameSizeInBytes: number | null = null; // To be set in init
+    private metadata: TrajectoryMetadata | null = null;
+    private readonly frameSizeSampleCount: number;
+    // Largest sampled frame, set in init. Frames may differ in size (variable atom counts,
+    // box-less frames), so chunks are laid out for the largest one to stay within the target size.
+    private frameSizeInBytes: number | null = null;
+    private chunkLevel: number | null = null; // New chunks hold 2^chunkLevel frames
     private framesPerChunk: number | null = null;
+    private knownLayouts = new Map<string, ChunkLayout>(); // Layouts of all chunks cached or in flight
+    private knownSelections = new Map<string, AtomSelection>(); // Atom selections of all chunks cached or in flight
+    private atomCount: number | null = null; // Set in init when all sampled frames agree
+    private frameTimes = new Map<number, number>(); // Simulation times (ps) read by time lookups
+    private stride: number;
     private isTransparent = false;
-    private lastRequestedChunkIndex: number | null = null;
+    private readonly scrubFirst: boolean;
+    private offline: boolean;
+    private identity: string | null; // Keys the persistent L2 namespace; null for a session namespace
+    private readonly adaptiveOptions: AdaptiveChunkSizeOptions;
+    private readonly bandwidthEstimator = new BandwidthEstimator();
+    private fetchesSinceChunkSizeChange = 0;
+    private readonly prefetchOptions: PrefetchOptions;
+    private prefetchPlanner: PrefetchPlanner | null = null; // Created in init, once the chunk layout is known
     
-    private pendingFetches = new Map<number, Promise<FrameData[]>>();
+    private pendingFetches = new Map<ChunkKey, PendingFetch>();
+    private pendingPromotions = new Set<ChunkKey>(); // L2 reads started by the prefetcher
+    private pinnedRanges: [number, number][] = []; // Sorted, disjoint [start, end) frame ranges
+    // Aborted by dispose(); pending requests reject as soon as it fires.
+    private lifecycle = new AbortController();
+    private counters = {
+        l1Hits: 0,
+        l1Misses: 0,
+        l2Hits: 0,
+        l2Misses: 0,
+        bytesTransferred: 0,
+        fetchCount: 0,
+        totalFetchLatencyMs: 0,
+    };
+    // Bumped by clear(), so fetches started before it do not repopulate the caches.
+    private cacheGeneration = 0;
 
     constructor(options: {
         dataSource: TrajectoryDataSource;
         targetChunkSizeInBytes?: number;
+        frameSizeSampleCount?: number; // Frames, spread evenly over the trajectory, measured in init
+        l1CacheSizeInBytes?: number;
+        /** @deprecated Use l1CacheSizeInBytes; converted to bytes using targetChunkSizeInBytes. */
         l1CacheSizeInChunks?: number;
         l2CacheSizeInBytes?: number;
+        l2MaxAgeInMs?: number; // L2 namespaces unused for longer than this are deleted
+        // Asks the browser to keep the L2 cache under storage pressure (navigator.storage.persist()).
+        persistL2?: boolean;
+        l2Store?: ChunkStore; // Defaults to IndexedDB, or memory where IndexedDB is unavailable
+        // How chunks are encoded in L2; the L2 budget counts encoded bytes. Defaults to RawChunkCodec.
+        l2Codec?: ChunkCodec;
+        // Share a persistent L2 namespace with proxies in other tabs: one budget, each chunk fetched once.
+        shareAcrossTabs?: boolean;
+        retryPolicy?: Partial<RetryPolicy>;
+        circuitBreaker?: {
+            failureThreshold?: number; // Consecutive transient failures before the source is deemed unavailable
+            cooldownMs?: number; // How long to fail fast before probing the source again
+        };
+        onSourceStateChange?: (state: SourceState) => void;
+        maxConcurrentFetches?: number; // Data source requests in flight at once; the rest queue by priority
+        // On a cold chunk, fetch the requested frame first and fill the rest of the chunk in the background.
+        scrubFirst?: boolean;
+        // Serve frames from the caches only; see setOffline().
+        offline?: boolean;
+        // The dataset identity, used instead of dataSource.getIdentity(); see getIdentity().
+        identity?: string;
+        // Subsampling for getFrame(): frames that are multiples of it are fetched in chunks of every stride-th frame.
+        stride?: number;
+        prefetch?: Partial<PrefetchOptions>;
+        adaptiveChunkSize?: Partial<AdaptiveChunkSizeOptions>;
     }) {
+        super();
         this.dataSource = options.dataSource;
         this.targetChunkSizeInBytes = options.targetChunkSizeInBytes ?? 1 * 1024 * 1024; // 1MB
-        this.l1CacheSizeInChunks = options.l1CacheSizeInChunks ?? 3;
+        this.frameSizeSampleCount = Math.max(1, options.frameSizeSampleCount ?? 3);
+        this.l1CacheSizeInBytes = options.l1CacheSizeInBytes
+            ?? (options.l1CacheSizeInChunks ?? 3) * this.targetChunkSizeInBytes; // 3 chunks
         this.l2CacheSizeInBytes = options.l2CacheSizeInBytes ?? 50 * 1024 * 1024; // 50MB
+        this.l2MaxAgeInMs = options.l2MaxAgeInMs ?? 7 * 24 * 60 * 60 * 1000; // 7 days
+        this.persistL2 = options.persistL2 ?? false;
+        this.prefetchOptions = {
+            depth: 1,
+            maxDepth: 4,
+            behind: 1,
+            lookaheadMs: 2000,
+            ...options.prefetch,
+        };
+        this.adaptiveOptions = {
+            enabled: true,
+            minChunkSizeInBytes: this.targetChunkSizeInBytes / 4,
+            maxChunkSizeInBytes: this.targetChunkSizeInBytes * 4,
+            playbackFramesPerSecond: 1000 / 60,
+            ...options.adaptiveChunkSize,
+        };
+        this.retryPolicy = {
+            maxRetries: 3,
+            baseDelayMs: 500,
+            maxDelayMs: 10 * 1000,
+            isTransient: isTransientError,
+            ...options.retryPolicy,
+        };
+        this.circuitBreaker = new CircuitBreaker({
+            failureThreshold: options.circuitBreaker?.failureThreshold ?? 5,
+            cooldownMs: options.circuitBreaker?.cooldownMs ?? 30 * 1000,
+            onStateChange: state => {
+                console.warn(`Data source state changed to '${state}'.`);
+                options.onSourceStateChange?.(state);
+                this.emit('sourceStateChanged', { state });
+            },
+        });
 
-        this.l1Cache = new LRUCache<number, FrameData[]>(this.l1CacheSizeInChunks);
-        // L2 capacity is managed by size in bytes, not item count, so capacity is Infinity.
-        this.l2Cache = new LRUCache<number, { size: number }>(Infinity);
+        this.fetchScheduler = new FetchScheduler(options.maxConcurrentFetches ?? 4);
+        this.scrubFirst = options.scrubFirst ?? true;
+        this.offline = options.offline ?? false;
+        this.identity = options.identity ?? null;
+        this.stride = options.stride ?? 1;
+        this.assertValidStride(this.stride);
 
-        const dbName = `ngl-proxy-db-${Date.now()}-${Math.random()}`;
-        const storeName = 'chunks';
-        this.l2Store = createStore(dbName, storeName);
+        const isPinned = (chunkKey: ChunkKey) => this.isPinned(chunkKey);
+        this.l1Cache = new LRUCache<ChunkKey, FrameData[]>(this.l1CacheSizeInBytes, getFramesSizeInBytes, isPinned);
+        this.l2Cache = new LRUCache<ChunkKey, { size: number }>(this.l2CacheSizeInBytes, entry => entry.size, isPinned);
+        this.l2Store = options.l2Store
+            ?? (typeof indexedDB !== 'undefined' ? new IndexedDBChunkStore() : new MemoryChunkStore());
+        this.shareAcrossTabs = options.shareAcrossTabs ?? true;
+        this.l2Codec = options.l2Codec ?? new RawChunkCodec();
     }
 
     public async init(): Promise<void> {
+        this.assertNotDisposed();
         if (this.metadata) return;
+        const startTime = performance.now();
 
-        this.metadata = await this.dataSource.getMetadata();
-        if (typeof this.metadata?.frameCount !== 'number') {
-            throw new Error("Metadata must include a 'frameCount' number property.");
-        }
-
-        const firstFrameArr = await this.dataSource.getFrames(0, 1);
-        if (!firstFrameArr || firstFrameArr.length === 0) {
-            throw new Error("Failed to fetch first frame to determine size.");
-        }
-        
-        const firstFrame = firstFrameArr[0];
-        this.frameSizeInBytes = firstFrame.coords.byteLength + firstFrame.box.byteLength;
+        try {
+            if (this.offline) {
+                // The data source is not contacted offline: the metadata and measurements come from the L2 manifest.
+                await this.openL2Store();
+                if (!this.metadata || this.frameSizeInBytes === null) {
+                    throw new Error("Nothing is cached for this trajectory, so it cannot be opened offline.");
+                }
+            } else {
+                this.metadata = validateTrajectoryMetadata(await this.dataSource.getMetadata());
+                ({ frameSizeInBytes: this.frameSizeInBytes, atomCount: this.atomCount } = await this.measureFrames());
+            }
+            const { atomCount } = this.metadata;
+            if (atomCount !== undefined && this.atomCount !== null && atomCount !== this.atomCount) {
+                throw new InvalidMetadataError('atomCount', `is ${atomCount}, but the sampled frames hold ${this.atomCount} atoms.`);
+            }
 
-        if (this.frameSizeInBytes > this.targetChunkSizeInBytes) {
-            this.isTransparent = true;
-            console.warn("Single frame size is larger than target chunk size. Proxy is in transparent mode.");
-        } else {
-            this.framesPerChunk = Math.max(1, Math.floor(this.targetChunkSizeInBytes / this.frameSizeInBytes));
+            if (this.frameSizeInBytes > this.targetChunkSizeInBytes) {
+                this.isTransparent = true;
+                console.warn("Largest sampled frame is larger than target chunk size. Proxy is in transparent mode.");
+            } else {
+                this.setChunkLevel(this.getChunkLevelForSize(this.targetChunkSizeInBytes));
+                this.prefetchPlanner = new PrefetchPlanner({ ...this.prefetchOptions, framesPerChunk: this.framesPerChunk! });
+                if (!this.offline) {
+                    await this.openL2Store();
+                }
+            }
+        } catch (error) {
+            // Nothing is kept from a failed init(), so that the next one starts over.
+            this.metadata = null;
+            this.frameSizeInBytes = null;
+            this.atomCount = null;
+            this.isTransparent = false;
+            this.prefetchPlanner = null;
+            this.coordinator?.close().catch(() => {});
+            this.coordinator = null;
+            throw error;
         }
-        console.log("TrajectoryProxy initialized:", {
+        const initialized = {
             frameCount: this.metadata.frameCount,
             frameSizeInBytes: this.frameSizeInBytes,
             framesPerChunk: this.framesPerChunk,
             isTransparent: this.isTransparent,
+            l2ChunksRestored: this.l2Cache.count,
+            durationMs: performance.now() - startTime,
+        };
+        this.emit('initialized', initialized);
+    }
+
+    // Fetches a few frames spread over the trajectory and returns the largest size among them,
+    // and their atom count unless it varies.
+    private async measureFrames(): Promise<{ frameSizeInBytes: number; atomCount: number | null }> {
+        const lastFrame = this.getFrameCount() - 1;
+        const sampleCount = Math.min(this.frameSizeSampleCount, lastFrame + 1);
+        const sampleIndices = new Set<number>();
+        for (let i = 0; i < sampleCount; i++) {
+            sampleIndices.add(sampleCount > 1 ? Math.round(i * lastFrame / (sampleCount - 1)) : 0);
+        }
+
+        const samples = await Promise.all([...sampleIndices].map(async frameIndex => {
+            const frames = await this.fetchFrames(frameIndex, frameIndex + 1, this.lifecycle.signal, null);
+            if (!frames || frames.length === 0) {
+                throw new Error(`Failed to fetch frame ${frameIndex} to determine frame size.`);
+            }
+            return { sizeInBytes: getFramesSizeInBytes(frames), atomCount: frames[0].coords.length / 3 };
+        }));
+        const atomCounts = new Set(samples.map(sample => sample.atomCount));
+        return {
+            frameSizeInBytes: Math.max(...samples.map(sample => sample.sizeInBytes)),
+            atomCount: atomCounts.size === 1 ? samples[0].atomCount : null,
+        };
+    }
+
+    /**
+     * Opens the L2 store for this dataset and rebuilds the in-memory L2 index from it.
+     * Without a dataset identity, the store is scoped to this session.
+     */
+    private async openL2Store(): Promise<void> {
+        if (this.identity === null && this.dataSource.getIdentity) {
+            this.identity = await this.dataSource.getIdentity();
+        }
+        const namespace = this.identity ?? `session-${Date.now()}-${Math.random()}`;
+        await this.l2Store.open(namespace);
+
+        this.l2Store.collectGarbage?.(this.l2MaxAgeInMs).catch(error => {
+            console.warn("Failed to garbage-collect stale L2 namespaces:", error);
         });
+
+        await this.restoreL2Index();
+        await this.applyStorageQuota();
+
+        // Only a namespace keyed by the dataset identity is opened by other tabs as well.
+        if (this.identity !== null && this.l2Store.shared && this.shareAcrossTabs && CrossTabCoordinator.isSupported()) {
+            this.coordinator = new CrossTabCoordinator(namespace, message => {
+                this.handleCrossTabMessage(message).catch(error => {
+                    console.warn(`Failed to apply '${message.type}' from another tab:`, error);
+                });
+            });
+        }
+    }
+
+    // Caps the L2 budget to the storage the browser still grants this origin.
+    private async applyStorageQuota(): Promise<void> {
+        if (!this.l2Store.usesStorageQuota || typeof navigator === 'undefined' || !navigator.storage) return;
+        // Session namespaces are deleted on dispose, so only a persistent L2 is worth keeping.
+        if (this.persistL2 && this.identity !== null) {
+            navigator.storage.persist().then(persisted => {
+                if (!persisted) {
+                    console.warn("Persistent storage was not granted; the browser may evict the L2 cache.");
+                }
+            }).catch(error => {
+                console.warn("Failed to request persistent storage:", error);
+            });
+        }
+
+        try {
+            const { usage, quota } = await navigator.storage.estimate();
+            if (usage === undefined || quota === undefined) return;
+            // The usage includes the chunks already in L2.
+            await this.capL2Budget(this.l2Cache.size + Math.max(0, quota - usage) * STORAGE_QUOTA_HEADROOM, 'storageEstimate');
+        } catch (error) {
+            console.warn("Failed to estimate the storage quota:", error);
+        }
     }
 
-    public getMetadata(): any {
+    private async capL2Budget(capInBytes: number, reason: 'storageEstimate' | 'quotaExceeded'): Promise<void> {
+        if (await this.lowerL2Budget(capInBytes, reason)) {
+            await this.saveL2Manifest();
+        }
+    }
+
+    // Lowers the L2 budget to `capInBytes`, evicting what no longer fits. Resolves to false if the budget was within it already.
+    private async lowerL2Budget(capInBytes: number, reason: 'storageEstimate' | 'quotaExceeded'): Promise<boolean> {
+        this.l2QuotaInBytes = Math.max(0, Math.floor(capInBytes));
+        if (this.l2QuotaInBytes >= this.l2CacheSizeInBytes) return false;
+        this.l2CacheSizeInBytes = this.l2QuotaInBytes;
+        const evicted = this.l2Cache.setCapacity(this.l2CacheSizeInBytes);
+        if (this.l2CacheSizeInBytes === 0) {
+            console.warn("Storage quota exhausted; frames are cached in L1 only.");
+        } else {
+            console.warn(`L2 budget reduced to ${this.l2CacheSizeInBytes} bytes to fit the storage quota.`);
+        }
+        this.emit('l2BudgetReduced', { budgetInBytes: this.l2CacheSizeInBytes, reason });
+        await this.removeFromL2Store(evicted);
+        return true;
+    }
+
+    // Mirrors the changes another tab made to the shared L2 namespace in this proxy's L2 index.
+    private async handleCrossTabMessage(message: CrossTabMessage): Promise<void> {
+        if (this.lifecycle.signal.aborted) return;
+        switch (message.type) {
+            case 'chunkStored':
+                await this.indexSharedChunk(message.chunkKey, message.sizeInBytes);
+                break;
+            case 'chunksEvicted':
+                for (const chunkKey of message.chunkKeys) {
+                    const entry = this.l2Cache.peek(chunkKey);
+                    if (entry && this.l2Cache.delete(chunkKey)) {
+                        this.emit('chunkEvictedL2', { ...this.getChunkRange(chunkKey), sizeInBytes: entry.size });
+                    }
+                }
+                break;
+            case 'cleared':
+                this.l2Cache.clear();
+                break;
+        }
+    }
+
+    // Adds a chunk another tab stored to the L2 index. The budget covers the chunks of all tabs,
+    // so this may evict chunks from the shared store.
+    private async indexSharedChunk(chunkKey: ChunkKey, sizeInBytes: number): Promise<void> {
+        if (this.l2Cache.has(chunkKey)) return;
+        this.addKnownLayout(chunkKey);
+        const evicted = this.l2Cache.set(chunkKey, { size: sizeInBytes }).evicted;
+        await this.removeFromL2Store(evicted);
+        await this.saveL2Manifest();
+    }
+
+    private async restoreL2Index(): Promise<void> {
+        const manifest = await this.l2Store.get<L2Manifest>(L2_MANIFEST_KEY);
+        if (!manifest || manifest.version !== L2_MANIFEST_VERSION || manifest.codec !== this.l2Codec.name) {
+            // Chunks from an older chunk layout or another codec cannot be reused.
+            await this.l2Store.clear();
+            return;
+        }
+        if (this.metadata === null && manifest.metadata) {
+            this.metadata = validateTrajectoryMetadata(manifest.metadata);
+        }
+        if (this.frameSizeInBytes === null && manifest.frameSizeInBytes != null) {
+            this.frameSizeInBytes = manifest.frameSizeInBytes;
+            this.atomCount = manifest.atomCount ?? null;
+        }
+
+        const storedKeys = new Set(await this.l2Store.keys());
+        for (const [chunkKey, size] of manifest.chunks) {
+            if (storedKeys.delete(chunkKey)) {
+                this.addKnownLayout(chunkKey);
+                // Chunks over a (possibly reduced) budget are evicted right away.
+                for (const evicted of this.l2Cache.set(chunkKey, { size }).evicted) {
+                    storedKeys.add(evicted.key);
+                }
+            }
+        }
+        // Chunks written without a manifest update (e.g. the page closed mid-write) are dropped.
+        storedKeys.delete(L2_MANIFEST_KEY);
+        for (const key of storedKeys) {
+            await this.l2Store.del(key);
+        }
+
+        await this.saveL2Manifest();
+    }
+
+    /**
+     * Tears the proxy down: rejects pending requests, releases both cache levels and deletes
+     * the L2 namespace. A persistent L2 namespace (one keyed by the dataset identity) is kept
+     * for the next session unless `dropL2` is set.
+     */
+    public async dispose(options: { dropL2?: boolean } = {}): Promise<void> {
+        if (this.lifecycle.signal.aborted) return;
+        const reason = new Error("Proxy has been disposed.");
+        this.lifecycle.abort(reason);
+        for (const pending of this.pendingFetches.values()) {
+            pending.controller.abort(reason);
+        }
+        this.pendingFetches.clear();
+        this.removeAllListeners();
+        this.l1Cache.clear();
+        this.l2Cache.clear();
+
+        // A shared namespace is only dropped by the last tab using it.
+        const isLastUser = await this.coordinator?.close() ?? true;
+        if (this.metadata && !this.isTransparent) {
+            if ((options.dropL2 || this.identity === null) && isLastUser) {
+                await this.l2Store.drop();
+            }
+        }
+    }
+
+    /**
+     * Empties both cache levels. Fetches already in flight still resolve their callers,
+     * but their results are not cached. A shared L2 namespace is cleared for all tabs.
+     */
+    public async clear(): Promise<void> {
+        this.assertNotDisposed();
+        this.cacheGeneration++;
+        this.l1Cache.clear();
+        this.l2Cache.clear();
+        if (this.metadata && !this.isTransparent) {
+            await this.l2Store.clear();
+            this.coordinator?.announce({ type: 'cleared' });
+        }
+    }
+
+    /**
+     * Changes the cache budgets at runtime. Shrinking a budget evicts immediately.
+     * The L2 budget stays capped to the storage quota.
+     */
+    public async reconfigure(options: {
+        l1CacheSizeInBytes?: number;
+        l2CacheSizeInBytes?: number;
+    }): Promise<void> {
+        this.assertNotDisposed();
+        if (options.l1CacheSizeInBytes !== undefined) {
+            this.l1CacheSizeInBytes = options.l1CacheSizeInBytes;
+            for (const { key, value } of this.l1Cache.setCapacity(this.l1CacheSizeInBytes)) {
+                this.emit('chunkEvictedL1', this.describeChunk(key, value));
+            }
+            this.capAdaptiveChunkLevel();
+        }
+        if (options.l2CacheSizeInBytes !== undefined) {
+            this.l2CacheSizeInBytes = Math.min(options.l2CacheSizeInBytes, this.l2QuotaInBytes);
+            const evicted = this.l2Cache.setCapacity(this.l2CacheSizeInBytes);
+            if (this.metadata && !this.isTransparent) {
+                await this.removeFromL2Store(evicted);
+                await this.saveL2Manifest();
+            }
+        }
+    }
+
+    public getMetadata(): TrajectoryMetadata {
         if (!this.metadata) {
             throw new Error("Proxy not initialized. Call init() first.");
         }
         return this.metadata;
     }
 
+    /**
+     * Whether the data source is currently reachable, as judged by the circuit breaker.
+     * While 'unavailable', cache misses fail fast with a SourceUnavailableError.
+     */
+    public getSourceState(): SourceState {
+        return this.circuitBreaker.getState();
+    }
+
+    public getStats(): TrajectoryProxyStats {
+        const counters = this.counters;
+        return {
+            l1: {
+                hits: counters.l1Hits,
+                misses: counters.l1Misses,
+                chunks: this.l1Cache.count,
+                sizeInBytes: this.l1Cache.size,
+                budgetInBytes: this.l1CacheSizeInBytes,
+            },
+            l2: {
+                hits: counters.l2Hits,
+                misses: counters.l2Misses,
+                chunks: this.l2Cache.count,
+                sizeInBytes: this.l2Cache.size,
+                budgetInBytes: this.l2CacheSizeInBytes,
+            },
+            bytesTransferred: counters.bytesTransferred,
+            fetchCount: counters.fetchCount,
+            averageFetchLatencyMs: counters.fetchCount > 0 ? counters.totalFetchLatencyMs / counters.fetchCount : 0,
+            inFlightFetches: this.pendingFetches.size,
+            queuedFetches: this.fetchScheduler.queuedCount,
+            framesPerChunk: this.framesPerChunk,
+            bandwidth: this.bandwidthEstimator.getEstimate(),
+        };
+    }
+
+    /**
+     * Returns the merged, sorted frame ranges that can be served without touching the network,
+     * e.g. to draw a "buffered" bar under a frame slider. With a `stride`, a range counts as
+     * buffered when its multiples of the stride are; with `atomIndices`, when those atoms are.
+     */
+    public getBufferedRanges(stride: number = 1, atomIndices?: number[][]): FrameRange[] {
+        this.assertValidStride(stride);
+        if (!this.metadata || this.isTransparent || this.framesPerChunk === null) {
+            return [];
+        }
+        const selection = this.toAtomSelection(atomIndices);
+        const chunkKeys = new Set<ChunkKey>();
+        for (const [chunkKey] of this.l1Cache.entries()) chunkKeys.add(chunkKey);
+        for (const [chunkKey] of this.l2Cache.entries()) chunkKeys.add(chunkKey);
+        for (const chunkKey of chunkKeys) {
+            const chunk = parseChunkKey(chunkKey);
+            if (stride % chunk.stride !== 0 || !this.holdsAtoms(chunk.selection, selection)) chunkKeys.delete(chunkKey);
+        }
+
+        const ranges: FrameRange[] = [];
+        const chunkRanges = [...chunkKeys].map(chunkKey => this.getChunkRange(chunkKey));
+        for (const { startFrame, endFrame } of chunkRanges.sort((a, b) => a.startFrame - b.startFrame)) {
+            const last = ranges[ranges.length - 1];
+            if (last && last.end >= startFrame) {
+                last.end = Math.max(last.end, endFrame);
+            } else {
+                ranges.push({ start: startFrame, end: endFrame });
+            }
+        }
+        return ranges;
+    }
+
     public getFrameCount(): number {
         if (!this.metadata) {
             throw new Error("Proxy not initialized. Call init() first.");
@@ -194,7 +888,60 @@ export class TrajectoryProxy {
         return this.metadata.frameCount;
     }
 
-    public async getFrame(frameIndex: number): Promise<FrameData> {
+    /**
+     * Returns a single frame. Aborting `signal` rejects the returned promise with the abort
+     * reason and cancels the underlying fetch unless another caller still needs it.
+     * With `atomIndices` (half-open [start, end) ranges, as NGL's CallbackTrajectory passes them),
+     * the frame holds the coordinates of those atoms only. Cached chunks of a superset of the
+     * atoms serve it without a fetch.
+     */
+    public async getFrame(frameIndex: number, signal?: AbortSignal, atomIndices?: number[][]): Promise<FrameData> {
+        return this.readFrame(frameIndex, this.stride, signal, this.toAtomSelection(atomIndices));
+    }
+
+    /**
+     * Sets the subsampling used by getFrame(), e.g. 100 to review every 100th frame: frames that
+     * are multiples of the stride are then fetched in chunks of every stride-th frame. Chunks
+     * already cached, including full-resolution ones, keep serving the frames they hold.
+     */
+    public setStride(stride: number): void {
+        this.assertValidStride(stride);
+        this.stride = stride;
+    }
+
+    public getStride(): number {
+        return this.stride;
+    }
+
+    /**
+     * In offline mode, frames are served from the caches only: a frame in neither cache level
+     * fails fast with a FrameNotCachedError instead of contacting the data source, and nothing
+     * is prefetched from it. Use downloadAll() beforehand to cache the whole trajectory.
+     * A proxy constructed offline does not contact its data source in init() either: the metadata
+     * and frame measurements are read from the L2 manifest. It needs the `identity` option to find
+     * its L2 namespace, unless its data source answers getIdentity() offline.
+     */
+    public setOffline(offline: boolean): void {
+        this.offline = offline;
+    }
+
+    public isOffline(): boolean {
+        return this.offline;
+    }
+
+    /**
+     * The dataset identity the persistent L2 namespace is keyed by, or null for a session-scoped L2.
+     * Known once init() has opened L2. Save it to pass as the `identity` option to a proxy that
+     * is constructed offline later.
+     */
+    public getIdentity(): string | null {
+        return this.identity;
+    }
+
+    // getFrame() with chunks laid out for `stride`; the prefetcher follows the playhead in steps of it.
+    private async readFrame(frameIndex: number, stride: number, signal?: AbortSignal, selection: AtomSelection | null = null): Promise<FrameData> {
+        this.assertNotDisposed();
+        signal?.throwIfAborted();
         if (!this.metadata || this.framesPerChunk === null && !this.isTransparent) {
             throw new Error("Proxy not initialized. Call init() first.");
         }
@@ -203,112 +950,1037 @@ export class TrajectoryProxy {
         }
 
         if (this.isTransparent) {
-            const frame = await this.dataSource.getFrames(frameIndex, frameIndex + 1);
-            return frame[0];
+            const fetchSignal = signal ? AbortSignal.any([signal, this.lifecycle.signal]) : this.lifecycle.signal;
+            return this.fetchFrameUncached(frameIndex, fetchSignal, selection);
         }
 
-        const framesPerChunk = this.framesPerChunk!;
-        const currentChunkIndex = Math.floor(frameIndex / framesPerChunk);
+        // Frames off the stride grid are read from contiguous chunks.
+        const chunkStride = frameIndex % stride === 0 ? stride : 1;
+        // Any cached or in-flight chunk holding the frame will do, whatever its size and stride.
+        const foundKey = this.findChunkKey(frameIndex, undefined, selection);
+        const chunkKey = foundKey ?? this.getNewChunkKey(frameIndex, chunkStride, selection);
+
+        this.prefetchPlanner!.record(frameIndex / chunkStride);
+
+        // The frame is requested before the prefetches are scheduled, so they queue behind it instead of taking the free slots.
+        const firstFrameIndex = foundKey && this.pendingFetches.get(foundKey)?.firstFrame?.frameIndex;
+        const framePromise = this.scrubFirst && this.framesPerChunk! > 1 && (!foundKey || firstFrameIndex === frameIndex)
+            ? this.getFrameScrubFirst(chunkKey, frameIndex, signal).then(frame => this.selectAtoms(chunkKey, frame, selection))
+            : this.getOrFetchChunk(chunkKey, signal).then(chunk => this.getFrameFromChunk(chunkKey, chunk, frameIndex, selection));
+        this.schedulePrefetches(frameIndex, chunkStride, selection);
+        return framePromise;
+    }
+
+    /**
+     * Returns frames start, start + stride, ... below `end`. Chunks already cached or in flight
+     * are reused and only the chunks covering the gaps are fetched, concurrently. When `start`
+     * is a multiple of the stride, the gaps are fetched in strided chunks. `atomIndices` selects
+     * atoms as in getFrame().
+     */
+    public async getFrames(start: number, end: number, stride: number = 1, signal?: AbortSignal, atomIndices?: number[][]): Promise<FrameData[]> {
+        this.assertNotDisposed();
+        signal?.throwIfAborted();
+        if (!this.metadata || this.framesPerChunk === null && !this.isTransparent) {
+            throw new Error("Proxy not initialized. Call init() first.");
+        }
+        this.assertValidRange(start, end, stride);
+        const selection = this.toAtomSelection(atomIndices);
+
+        const frameIndices: number[] = [];
+        for (let frameIndex = start; frameIndex < end; frameIndex += stride) {
+            frameIndices.push(frameIndex);
+        }
+
+        if (this.isTransparent) {
+            const fetchSignal = signal ? AbortSignal.any([signal, this.lifecycle.signal]) : this.lifecycle.signal;
+            return Promise.all(frameIndices.map(frameIndex => this.fetchFrameUncached(frameIndex, fetchSignal, selection)));
+        }
+
+        // Each chunk is requested once, however many of its frames are wanted.
+        const chunkStride = start % stride === 0 ? stride : 1;
+        const chunks = new Map<ChunkKey, Promise<FrameData[]>>();
+        return Promise.all(frameIndices.map(async frameIndex => {
+            const chunkKey = this.findChunkKey(frameIndex, undefined, selection)
+                ?? this.getNewChunkKey(frameIndex, chunkStride, selection);
+            if (!chunks.has(chunkKey)) {
+                chunks.set(chunkKey, this.getOrFetchChunk(chunkKey, signal));
+            }
+            return this.getFrameFromChunk(chunkKey, await chunks.get(chunkKey)!, frameIndex, selection);
+        }));
+    }
 
-        if (currentChunkIndex !== this.lastRequestedChunkIndex) {
-            this.prefetchNextChunk(currentChunkIndex + 1);
-            this.lastRequestedChunkIndex = currentChunkIndex;
+    /**
+     * Iterates over frames start, start + stride, ... below `end` (by default the whole trajectory).
+     * Frames are requested one at a time like getFrame() calls, with chunks laid out for the stride,
+     * so the prefetcher keeps the chunks ahead loading while memory stays within the L1 budget.
+     */
+    public async *frames(options: {
+        start?: number;
+        end?: number;
+        stride?: number;
+        signal?: AbortSignal;
+        atomIndices?: number[][];
+    } = {}): AsyncGenerator<FrameData> {
+        const { start = 0, end = this.getFrameCount(), stride = 1, signal } = options;
+        this.assertValidRange(start, end, stride);
+        const selection = this.toAtomSelection(options.atomIndices);
+        for (let frameIndex = start; frameIndex < end; frameIndex += stride) {
+            yield await this.readFrame(frameIndex, stride, signal, selection);
         }
+    }
 
-        const chunk = await this.getOrFetchChunk(currentChunkIndex);
-        const frameOffset = frameIndex % framesPerChunk;
-        return chunk[frameOffset];
+    /**
+     * Returns the simulation times, in ps, of the first and the last frame. They are read from
+     * the frames where the data source provides times, and derived from the metadata's
+     * deltaTime and timeOffset otherwise.
+     */
+    public async getTimeRange(signal?: AbortSignal): Promise<{ start: number; end: number }> {
+        const lastFrame = this.getFrameCount() - 1;
+        const [start, end] = await Promise.all([this.getFrameTime(0, signal), this.getFrameTime(lastFrame, signal)]);
+        if (start !== undefined && end !== undefined) {
+            return { start, end };
+        }
+        const { deltaTime, timeOffset } = this.getRegularTimes();
+        return { start: timeOffset, end: timeOffset + lastFrame * deltaTime };
+    }
+
+    /**
+     * Returns the frame closest to simulation time `time` (in ps), clamped to the time range.
+     * Frame times need not be evenly spaced, only increasing: the frame is found by interpolating
+     * between frames whose times are known, falling back to bisection where the spacing is uneven,
+     * so only a few frames are read. Without frame times, the metadata's deltaTime is used.
+     */
+    public async getFrameAtTime(time: number, signal?: AbortSignal): Promise<{ frameIndex: number; frame: FrameData }> {
+        if (!Number.isFinite(time)) {
+            throw new Error(`Invalid time ${time}: must be a finite number.`);
+        }
+        const frameIndex = await this.findFrameAtTime(time, signal);
+        return { frameIndex, frame: await this.getFrame(frameIndex, signal) };
+    }
+
+    private async findFrameAtTime(time: number, signal?: AbortSignal): Promise<number> {
+        let lo = 0;
+        let hi = this.getFrameCount() - 1;
+        let [loTime, hiTime] = await Promise.all([this.getFrameTime(lo, signal), this.getFrameTime(hi, signal)]);
+        if (loTime === undefined || hiTime === undefined) {
+            const { deltaTime, timeOffset } = this.getRegularTimes();
+            const frameIndex = deltaTime > 0 ? Math.round((time - timeOffset) / deltaTime) : 0;
+            return Math.min(hi, Math.max(0, frameIndex));
+        }
+        if (time <= loTime) return lo;
+        if (time >= hiTime) return hi;
+
+        // Invariant: loTime <= time < hiTime
+        let bisect = false;
+        while (hi - lo > 1) {
+            const span = hi - lo;
+            let mid = bisect || hiTime <= loTime
+                ? lo + Math.floor(span / 2)
+                : lo + Math.round((time - loTime) / (hiTime - loTime) * span);
+            mid = Math.min(hi - 1, Math.max(lo + 1, mid));
+            const midTime = await this.getFrameTime(mid, signal);
+            if (midTime === undefined) {
+                throw new Error(`Frame ${mid} has no time, unlike frames ${lo} and ${hi}.`);
+            }
+            if (midTime <= time) {
+                lo = mid;
+                loTime = midTime;
+            } else {
+                hi = mid;
+                hiTime = midTime;
+            }
+            // An estimate that did not halve the interval suggests uneven spacing; bisect once.
+            bisect = !bisect && hi - lo > span / 2;
+        }
+        return time - loTime <= hiTime - time ? lo : hi;
     }
 
-    private async getOrFetchChunk(chunkIndex: number): Promise<FrameData[]> {
+    // Reads a frame's time without moving the playhead. One atom is enough, and any cached chunk holding the frame serves it.
+    private async getFrameTime(frameIndex: number, signal?: AbortSignal): Promise<number | undefined> {
+        const known = this.frameTimes.get(frameIndex);
+        if (known !== undefined) return known;
+        const [{ time }] = await this.getFrames(frameIndex, frameIndex + 1, 1, signal, [[0, 1]]);
+        if (time !== undefined) this.frameTimes.set(frameIndex, time);
+        return time;
+    }
+
+    private getRegularTimes(): { deltaTime: number; timeOffset: number } {
+        const { deltaTime, timeOffset = 0 } = toTrajectoryParameters(this.getMetadata());
+        if (deltaTime === undefined) {
+            throw new Error("The trajectory has no times: neither its frames nor its metadata (deltaTime) provide them.");
+        }
+        return { deltaTime, timeOffset };
+    }
+
+    /**
+     * Keeps the chunks holding frames [start, end) from being evicted, from either cache level,
+     * even if that takes the caches over their budgets. Pinning does not load anything; see warm().
+     */
+    public pinRange(start: number, end: number): void {
+        this.assertNotDisposed();
+        this.assertValidRange(start, end, 1);
+        if (start === end) return;
+        const ranges: [number, number][] = [];
+        let pinned: [number, number] = [start, end];
+        for (const range of this.pinnedRanges) {
+            if (range[1] < pinned[0] || range[0] > pinned[1]) {
+                ranges.push(range);
+            } else {
+                pinned = [Math.min(range[0], pinned[0]), Math.max(range[1], pinned[1])];
+            }
+        }
+        ranges.push(pinned);
+        this.pinnedRanges = ranges.sort((a, b) => a[0] - b[0]);
+    }
+
+    /**
+     * Unpins frames [start, end). Chunks no longer pinned are evicted right away where the caches
+     * are over budget.
+     */
+    public async unpinRange(start: number, end: number): Promise<void> {
+        this.assertNotDisposed();
+        this.assertValidRange(start, end, 1);
+        this.pinnedRanges = this.pinnedRanges.flatMap(([pinnedStart, pinnedEnd]) => {
+            const remaining: [number, number][] = [];
+            if (pinnedStart < start) remaining.push([pinnedStart, Math.min(pinnedEnd, start)]);
+            if (pinnedEnd > end) remaining.push([Math.max(pinnedStart, end), pinnedEnd]);
+            return remaining;
+        });
+        await this.reconfigure({ l1CacheSizeInBytes: this.l1CacheSizeInBytes, l2CacheSizeInBytes: this.l2CacheSizeInBytes });
+    }
+
+    public getPinnedRanges(): [number, number][] {
+        return this.pinnedRanges.map(([start, end]) => [start, end]);
+    }
+
+    /**
+     * Loads frames [start, end) into the caches ahead of time, at background priority, so they
+     * play without waiting for the data source. Chunks already cached are not fetched again.
+     * `onProgress` is called with the number of frames loaded so far, starting at 0.
+     */
+    public async warm(start: number, end: number, options: {
+        signal?: AbortSignal;
+        onProgress?: (progress: { loaded: number; total: number }) => void;
+    } = {}): Promise<void> {
+        this.assertNotDisposed();
+        if (!this.metadata || this.framesPerChunk === null && !this.isTransparent) {
+            throw new Error("Proxy not initialized. Call init() first.");
+        }
+        this.assertValidRange(start, end, 1);
+        const { signal, onProgress } = options;
+        const total = end - start;
+        let loaded = 0;
+        onProgress?.({ loaded, total });
+        if (this.isTransparent) {
+            // Nothing is cached in transparent mode.
+            onProgress?.({ loaded: total, total });
+            return;
+        }
+
+        await Promise.all(this.coverRange(start, end).map(async ({ chunkKey, frameCount }) => {
+            if (!this.l1Cache.has(chunkKey) && !this.l2Cache.has(chunkKey)) {
+                await this.fetchInBackground(chunkKey, false, signal);
+            }
+            loaded += frameCount;
+            onProgress?.({ loaded, total });
+        }));
+    }
+
+    /**
+     * Fetches every chunk of the trajectory into L2 at background priority, e.g. to play it
+     * offline later (see setOffline()). Chunks already in L2 are skipped, so calling it again after
+     * a reload resumes an interrupted download; that takes a persistent L2, i.e. a data source with
+     * getIdentity(). Rejects if the trajectory does not fit in the L2 budget: up front where its
+     * size is known, otherwise as soon as the download evicts a chunk of its own.
+     */
+    public async downloadAll(options: {
+        signal?: AbortSignal;
+        onProgress?: (progress: { loaded: number; total: number }) => void;
+    } = {}): Promise<void> {
+        this.assertNotDisposed();
+        if (!this.metadata || this.framesPerChunk === null && !this.isTransparent) {
+            throw new Error("Proxy not initialized. Call init() first.");
+        }
+        if (this.isTransparent) {
+            throw new Error("Frames are too large to cache, so the trajectory cannot be downloaded.");
+        }
+        if (this.offline) {
+            throw new Error("Cannot download the trajectory while offline.");
+        }
+        if (this.identity === null) {
+            console.warn("The data source has no identity, so the download does not survive a reload.");
+        }
+        const total = this.getFrameCount();
+        const tooLarge = () => new Error(`The trajectory does not fit in the L2 budget of ${this.l2CacheSizeInBytes} bytes.`);
+        // Raw chunks of frames that all hold the same atoms take a known size.
+        if (this.l2Codec instanceof RawChunkCodec && this.atomCount !== null && total * this.frameSizeInBytes! > this.l2CacheSizeInBytes) {
+            throw tooLarge();
+        }
+        const { onProgress } = options;
+        const controller = new AbortController();
+        const signal = options.signal ? AbortSignal.any([options.signal, controller.signal]) : controller.signal;
+        let loaded = 0;
+        onProgress?.({ loaded, total });
+
+        const chunks = this.coverRange(0, total);
+        const stored: ChunkKey[] = [];
+        const download = async ({ chunkKey, frameCount }: { chunkKey: ChunkKey; frameCount: number }) => {
+            signal.throwIfAborted();
+            if (!this.l2Cache.has(chunkKey)) {
+                const chunkData = this.l1Cache.peek(chunkKey);
+                if (chunkData) {
+                    await this.addChunkToL2(chunkKey, chunkData);
+                } else {
+                    await this.fetchInBackground(chunkKey, true, signal);
+                }
+            }
+            // Once the download evicts its own chunks (or one does not fit at all), the rest would only evict more.
+            stored.push(chunkKey);
+            if (stored.some(key => !this.l2Cache.has(key))) {
+                controller.abort(tooLarge());
+                throw controller.signal.reason;
+            }
+            loaded += frameCount;
+            onProgress?.({ loaded, total });
+        };
+        let next = 0;
+        await Promise.all(Array.from({ length: Math.min(DOWNLOAD_CONCURRENCY, chunks.length) }, async () => {
+            while (next < chunks.length) {
+                await download(chunks[next++]);
+            }
+        }));
+    }
+
+    // Chunks of full frames covering [start, end), preferring cached ones, with the number of frames each adds.
+    private coverRange(start: number, end: number): { chunkKey: ChunkKey; frameCount: number }[] {
+        const chunks: { chunkKey: ChunkKey; frameCount: number }[] = [];
+        for (let frameIndex = start; frameIndex < end;) {
+            const chunkKey = this.findChunkKey(frameIndex, 1) ?? this.getNewChunkKey(frameIndex, 1, null);
+            const nextFrameIndex = Math.min(end, this.getChunkRange(chunkKey).endFrame);
+            chunks.push({ chunkKey, frameCount: nextFrameIndex - frameIndex });
+            frameIndex = nextFrameIndex;
+        }
+        return chunks;
+    }
+
+    // Joins or starts a fetch of the chunk at background priority. `storeOnly` keeps a new fetch out of L1.
+    private async fetchInBackground(chunkKey: ChunkKey, storeOnly: boolean, signal?: AbortSignal): Promise<void> {
+        const pending = this.pendingFetches.get(chunkKey) ?? this.startFetch(chunkKey, 'background', undefined, storeOnly);
+        pending.consumers++;
+        try {
+            await abortable(pending.promise, signal);
+        } finally {
+            this.releaseFetch(chunkKey, pending);
+        }
+    }
+
+    // Fetches a single frame outside the chunk cache, as in transparent mode.
+    private async fetchFrameUncached(frameIndex: number, signal: AbortSignal, selection: AtomSelection | null): Promise<FrameData> {
+        const requested = this.dataSource.supportsAtomIndices ? selection : null;
+        const frames = await this.fetchFrames(frameIndex, frameIndex + 1, signal, null, undefined, {
+            atomIndices: requested?.ranges,
+        });
+        return requested === selection ? frames[0] : this.extractAtoms(frames[0], requested, selection!);
+    }
+
+    // Normalizes a caller's atomIndices; null stands for all atoms.
+    private toAtomSelection(atomIndices?: number[][]): AtomSelection | null {
+        return atomIndices ? AtomSelection.from(atomIndices, this.atomCount) : null;
+    }
+
+    // Whether frames holding `available` atoms (null for all) hold the `wanted` ones.
+    private holdsAtoms(available: AtomSelection | null, wanted: AtomSelection | null): boolean {
+        return available === null || wanted !== null && available.contains(wanted);
+    }
+
+    private assertValidStride(stride: number): void {
+        if (!Number.isInteger(stride) || stride < 1) {
+            throw new Error(`Stride must be a positive integer, got ${stride}.`);
+        }
+    }
+
+    private assertValidRange(start: number, end: number, stride: number): void {
+        this.assertValidStride(stride);
+        if (!Number.isInteger(start) || !Number.isInteger(end) || start < 0 || start > end || end > this.getFrameCount()) {
+            throw new Error(`Frame range ${start} to ${end} is out of bounds.`);
+        }
+    }
+
+    /**
+     * The chunk holding `frameIndex` that is cheapest to get: in L1, in L2, or already in flight.
+     * Given a `stride`, the chunk must also hold every stride-th frame after it within its range.
+     * Chunks of full frames or of a superset of `selection` hold its atoms.
+     */
+    private findChunkKey(frameIndex: number, stride?: number, selection: AtomSelection | null = null): ChunkKey | undefined {
+        const selections = [null, ...[...this.knownSelections.values()].filter(known => this.holdsAtoms(known, selection))];
+        const chunkKeys = [...this.knownLayouts.values()]
+            .filter(layout => frameIndex % layout.stride === 0 && (stride === undefined || stride % layout.stride === 0))
+            .flatMap(layout => selections.map(known => toChunkKey(
+                layout.level, Math.floor(frameIndex / layout.stride / 2 ** layout.level), layout.stride, known)));
+        return chunkKeys.find(chunkKey => this.l1Cache.has(chunkKey))
+            ?? chunkKeys.find(chunkKey => this.l2Cache.has(chunkKey))
+            ?? chunkKeys.find(chunkKey => this.pendingFetches.has(chunkKey));
+    }
+
+    private async getOrFetchChunk(chunkKey: ChunkKey, signal?: AbortSignal): Promise<FrameData[]> {
         // L1 Hit
-        const l1Data = this.l1Cache.get(chunkIndex);
+        const l1Data = this.l1Cache.get(chunkKey);
         if (l1Data) {
+            this.counters.l1Hits++;
             return l1Data;
         }
+        this.counters.l1Misses++;
 
-        // L2 Hit
-        if (this.l2Cache.has(chunkIndex)) {
-            const chunkData = await get<FrameData[]>(chunkIndex, this.l2Store);
-            if (chunkData) {
-                this.l2Cache.get(chunkIndex); // Update L2 LRU
-                this.addChunkToL1(chunkIndex, chunkData); // Promote to L1
-                return chunkData;
+        // L2 Hit. Checked before awaiting, so that on a miss the fetch starts synchronously.
+        if (this.l2Cache.has(chunkKey)) {
+            const l2Data = await this.promoteFromL2(chunkKey);
+            if (l2Data) {
+                this.counters.l2Hits++;
+                return l2Data;
             }
         }
+        this.counters.l2Misses++;
+        signal?.throwIfAborted();
         
-        // Miss: Fetch from source
-        if (this.pendingFetches.has(chunkIndex)) {
-            return this.pendingFetches.get(chunkIndex)!;
+        // Miss: Fetch from source, joining a fetch already in flight
+        const pending = this.pendingFetches.get(chunkKey) ?? this.startFetch(chunkKey, 'foreground');
+        this.setFetchPriority(pending, 'foreground');
+        pending.consumers++;
+        try {
+            return await abortable(pending.promise, signal);
+        } finally {
+            this.releaseFetch(chunkKey, pending);
+        }
+    }
+
+    /**
+     * Resolves as soon as the frame itself has arrived. The rest of the chunk keeps loading and is
+     * cached like any other chunk, unless the playhead moves away first.
+     */
+    private async getFrameScrubFirst(chunkKey: ChunkKey, frameIndex: number, signal?: AbortSignal): Promise<FrameData> {
+        let pending = this.pendingFetches.get(chunkKey);
+        if (!pending) {
+            this.counters.l1Misses++;
+            this.counters.l2Misses++;
+            pending = this.startFetch(chunkKey, 'near', frameIndex);
+            // The fill is held like a prefetch, so it outlives the caller.
+            pending.isPrefetch = true;
+            pending.consumers++;
+            pending.promise.catch(() => {}); // Failures are logged by startFetch
+        }
+        pending.consumers++;
+        try {
+            return await abortable(pending.firstFrame!.promise, signal);
+        } finally {
+            this.releaseFetch(chunkKey, pending);
+        }
+    }
+
+    // Reads a chunk from L2 and promotes it to L1. Resolves to undefined if L2 does not have it.
+    private async promoteFromL2(chunkKey: ChunkKey): Promise<FrameData[] | undefined> {
+        if (!this.l2Cache.has(chunkKey)) return undefined;
+        const startTime = performance.now();
+        const stored = await this.readFromL2Store(chunkKey);
+        if (!stored) return undefined;
+        this.l2Cache.get(chunkKey); // Update L2 LRU
+        this.addChunkToL1(chunkKey, stored.chunkData); // Promote to L1
+        this.emit('chunkPromotedFromL2', {
+            ...this.describeChunk(chunkKey, stored.chunkData),
+            durationMs: performance.now() - startTime,
+        });
+        return stored.chunkData;
+    }
+
+    /**
+     * Fetches a chunk and caches it. Given `firstFrameIndex`, that frame is fetched on its own at
+     * foreground priority first, and the frames around it are merged in once they arrive.
+     * With `storeOnly`, the chunk is cached in L2 only, unless other callers join the fetch.
+     */
+    private startFetch(chunkKey: ChunkKey, priority: FetchPriority, firstFrameIndex?: number, storeOnly = false): PendingFetch {
+        this.addKnownLayout(chunkKey);
+        const controller = new AbortController();
+        const ticket: FetchTicket = { priority };
+        const generation = this.cacheGeneration;
+        const chunkRange = this.getChunkRange(chunkKey);
+        const { startFrame: start, endFrame: end, stride } = chunkRange;
+        const atomIndices = parseChunkKey(chunkKey).selection?.ranges;
+
+        let firstFrame: PendingFetch['firstFrame'];
+        if (firstFrameIndex !== undefined) {
+            // A caller waits for this frame, so it has a foreground ticket of its own; `priority` is the fill's.
+            const firstFrameTicket: FetchTicket = { priority: 'foreground' };
+            const promise = this.fetchFrames(firstFrameIndex, firstFrameIndex + 1, controller.signal, chunkRange.chunkIndex, firstFrameTicket, { atomIndices })
+                .then(frames => frames[0]);
+            promise.catch(() => {}); // Failures are reported to the callers of fetchPromise
+            firstFrame = { frameIndex: firstFrameIndex, promise };
         }
 
         const fetchPromise = (async () => {
             try {
-                const start = chunkIndex * this.framesPerChunk!;
-                const end = Math.min((chunkIndex + 1) * this.framesPerChunk!, this.getFrameCount());
-                console.log(`Fetching chunk ${chunkIndex} (frames ${start} to ${end - 1}) from source...`);
-                const chunkData = await this.dataSource.getFrames(start, end);
+                // The lock is held until the chunk is in the shared L2, so a tab waiting for it reads it from there.
+                const chunkData = await this.withChunkLock(chunkKey, controller.signal, async contended => {
+                    if (contended) {
+                        const storedData = await this.readChunkStoredByOtherTab(chunkKey);
+                        if (storedData) return storedData;
+                    }
 
-                // Transactional write: L2 then L1
-                await this.addChunkToL2(chunkIndex, chunkData);
-                await this.addChunkToL1(chunkIndex, chunkData);
+                    const startTime = performance.now();
+                    const chunkData = firstFrame
+                        ? await this.fillAroundFrame(chunkRange, firstFrame.frameIndex, firstFrame.promise, controller.signal, ticket, atomIndices)
+                        : await this.fetchFrames(start, end, controller.signal, chunkRange.chunkIndex, ticket, { stride, atomIndices });
+                    this.emit('chunkFetched', {
+                        ...this.describeChunk(chunkKey, chunkData),
+                        durationMs: performance.now() - startTime,
+                    });
+                    this.adaptChunkSize();
+                    // Transactional write: L2 then L1, unless the caches were cleared while fetching
+                    if (generation === this.cacheGeneration) {
+                        await this.addChunkToL2(chunkKey, chunkData).catch(async error => {
+                            // The frames were fetched, so callers still get them from L1.
+                            console.warn(`Failed to store chunk ${chunkKey} in L2:`, error);
+                            this.l2Cache.delete(chunkKey);
+                            await this.l2Store.del(chunkKey).catch(() => {}); // Leaves no data the index does not know of
+                        });
+                    }
+                    return chunkData;
+                });
 
+                // A chunk fetched for L2 only goes to L1 as well once someone else waits for it.
+                const consumers = this.pendingFetches.get(chunkKey)?.consumers ?? 0;
+                if (generation === this.cacheGeneration && (!storeOnly || consumers > 1)) {
+                    await this.addChunkToL1(chunkKey, chunkData);
+                }
                 return chunkData;
             } catch (error) {
-                console.error(`Failed to fetch/cache chunk ${chunkIndex}:`, error);
+                if (!controller.signal.aborted && !(error instanceof FrameNotCachedError)) {
+                    console.error(`Failed to fetch/cache chunk ${chunkKey}:`, error);
+                }
                 throw error;
             }
         })();
-        
-        this.pendingFetches.set(chunkIndex, fetchPromise);
+
+        const pending: PendingFetch = { promise: fetchPromise, controller, consumers: 0, isPrefetch: false, ticket, firstFrame };
+        this.pendingFetches.set(chunkKey, pending);
         fetchPromise.finally(() => {
-            this.pendingFetches.delete(chunkIndex);
+            if (this.pendingFetches.get(chunkKey) === pending) {
+                this.pendingFetches.delete(chunkKey);
+            }
+        }).catch(() => {}); // Failures are reported to the callers of fetchPromise
+
+        return pending;
+    }
+
+    private withChunkLock<T>(chunkKey: ChunkKey, signal: AbortSignal, callback: (contended: boolean) => Promise<T>): Promise<T> {
+        return this.coordinator ? this.coordinator.withChunkLock(chunkKey, signal, callback) : callback(false);
+    }
+
+    // Reads a chunk another tab may have stored while this one waited for the chunk's lock.
+    private async readChunkStoredByOtherTab(chunkKey: ChunkKey): Promise<FrameData[] | undefined> {
+        const startTime = performance.now();
+        const stored = await this.readFromL2Store(chunkKey);
+        if (!stored) return undefined;
+        await this.indexSharedChunk(chunkKey, stored.sizeInBytes);
+        this.emit('chunkPromotedFromL2', {
+            ...this.describeChunk(chunkKey, stored.chunkData),
+            durationMs: performance.now() - startTime,
         });
+        return stored.chunkData;
+    }
 
-        return fetchPromise;
+    // Waits for the first frame, then fetches the frames of the chunk before and after it.
+    private async fillAroundFrame(
+        chunkRange: ChunkRange,
+        frameIndex: number,
+        firstFrame: Promise<FrameData>,
+        signal: AbortSignal,
+        ticket: FetchTicket,
+        atomIndices?: number[][],
+    ): Promise<FrameData[]> {
+        const frame = await firstFrame;
+        const { startFrame, endFrame, chunkIndex, stride } = chunkRange;
+        const options = { stride, atomIndices };
+        const [before, after] = await Promise.all([
+            startFrame < frameIndex ? this.fetchFrames(startFrame, frameIndex, signal, chunkIndex, ticket, options) : [],
+            frameIndex + stride < endFrame ? this.fetchFrames(frameIndex + stride, endFrame, signal, chunkIndex, ticket, options) : [],
+        ]);
+        return [...before, frame, ...after];
     }
 
-    private async addChunkToL1(chunkIndex: number, chunkData: FrameData[]): Promise<void> {
-        const evicted = this.l1Cache.set(chunkIndex, chunkData).evicted;
-        // L1 eviction doesn't require further action
+    /**
+     * Calls the data source, retrying transient failures with backoff while the circuit breaker allows it.
+     * Each attempt waits for a slot from the fetch scheduler; a preempted attempt is queued again
+     * without counting as a failure. Strided frames are requested one by one from sources that
+     * do not support a stride.
+     */
+    private async fetchFrames(
+        start: number,
+        end: number,
+        signal: AbortSignal,
+        chunkIndex: number | null,
+        ticket: FetchTicket = { priority: 'foreground' },
+        options: FrameRequestOptions = {},
+    ): Promise<FrameData[]> {
+        const { stride = 1, atomIndices } = options;
+        if (this.offline) {
+            throw new FrameNotCachedError(start, end);
+        }
+        if (stride > 1 && !this.dataSource.supportsStride) {
+            const frames: Promise<FrameData[]>[] = [];
+            for (let frameIndex = start; frameIndex < end; frameIndex += stride) {
+                frames.push(this.fetchFrames(frameIndex, frameIndex + 1, signal, chunkIndex, ticket, { atomIndices }));
+            }
+            return (await Promise.all(frames)).flat();
+        }
+
+        const frameCount = Math.ceil((end - start) / stride);
+        const requestOptions = stride > 1 || atomIndices ? options : undefined;
+        for (let attempt = 0; ;) {
+            const slot = await this.fetchScheduler.acquire(ticket, signal);
+            try {
+                await this.circuitBreaker.acquire(signal);
+            } catch (error) {
+                slot.release();
+                throw error;
+            }
+            const startTime = performance.now();
+            let backoff: number;
+            try {
+                const frames = await abortable(this.dataSource.getFrames(start, end, slot.signal, requestOptions), slot.signal);
+                if (frames.length !== frameCount) {
+                    throw new DataSourceError(`Expected ${frameCount} frames from ${start} to ${end - 1}, got ${frames.length}.`, { transient: false });
+                }
+                this.circuitBreaker.recordSuccess();
+                this.counters.fetchCount++;
+                this.counters.totalFetchLatencyMs += performance.now() - startTime;
+                this.counters.bytesTransferred += getFramesSizeInBytes(frames);
+                this.bandwidthEstimator.record(getFramesSizeInBytes(frames), performance.now() - startTime);
+                return frames;
+            } catch (error) {
+                if (slot.signal.aborted) {
+                    this.circuitBreaker.release();
+                    if (signal.aborted) throw error;
+                    continue;
+                }
+                const transient = this.retryPolicy.isTransient(error);
+                const willRetry = transient && attempt < this.retryPolicy.maxRetries;
+                this.emit('fetchFailed', {
+                    chunkIndex, startFrame: start, endFrame: end, stride, error, attempt, willRetry,
+                    durationMs: performance.now() - startTime,
+                });
+                if (!transient) {
+                    this.circuitBreaker.recordSuccess(); // The source answered, it just refused the request
+                    throw error;
+                }
+                this.circuitBreaker.recordFailure();
+                if (!willRetry) {
+                    throw error;
+                }
+                backoff = Math.min(this.retryPolicy.maxDelayMs, this.retryPolicy.baseDelayMs * 2 ** attempt)
+                    * (0.5 + Math.random() / 2); // Jitter spreads out retries
+                console.warn(`Fetching frames ${start} to ${end - 1} failed, retrying in ${Math.round(backoff)}ms:`, error);
+            } finally {
+                slot.release(); // The slot is not held during the backoff
+            }
+            await delay(backoff, signal);
+            attempt++;
+        }
     }
 
-    private async addChunkToL2(chunkIndex: number, chunkData: FrameData[]): Promise<void> {
-        if (this.frameSizeInBytes === null) {
-            // This should not happen if init() was called, but as a safeguard:
-            throw new Error("frameSizeInBytes is not initialized. Cannot calculate chunk size.");
+    private setFetchPriority(pending: PendingFetch, priority: FetchPriority): void {
+        if (pending.ticket.priority === priority) return;
+        pending.ticket.priority = priority;
+        this.fetchScheduler.reprioritize();
+    }
+
+    // Drops one consumer of a pending fetch, aborting the fetch once nobody is waiting for it.
+    private releaseFetch(chunkKey: ChunkKey, pending: PendingFetch): void {
+        pending.consumers--;
+        if (pending.consumers > 0 || this.pendingFetches.get(chunkKey) !== pending) return;
+        this.pendingFetches.delete(chunkKey);
+        pending.controller.abort();
+    }
+
+    private async addChunkToL1(chunkKey: ChunkKey, chunkData: FrameData[]): Promise<void> {
+        // Evicted chunks are still in L2, so L1 eviction only needs to be reported
+        for (const evicted of this.l1Cache.set(chunkKey, chunkData).evicted) {
+            this.emit('chunkEvictedL1', this.describeChunk(evicted.key, evicted.value));
         }
-        const chunkSize = chunkData.length * this.frameSizeInBytes;
-        
-        this.l2CurrentSizeInBytes += chunkSize;
-        const evicted = this.l2Cache.set(chunkIndex, { size: chunkSize }).evicted;
-        if(evicted) {
-            this.l2CurrentSizeInBytes -= evicted.value.size;
-            await del(evicted.key, this.l2Store);
+    }
+
+    private async addChunkToL2(chunkKey: ChunkKey, chunkData: FrameData[]): Promise<void> {
+        const encoded = await this.l2Codec.encode(chunkData);
+        const sizeInBytes = getEncodedSizeInBytes(encoded);
+        const { startFrame, endFrame, stride } = this.getChunkRange(chunkKey);
+        const header: L2ChunkHeader = {
+            startFrame,
+            endFrame,
+            stride,
+            frameCount: chunkData.length,
+            atomCounts: chunkData.map(frame => frame.coords.length / 3),
+            boxLengths: chunkData.map(frame => frame.box.length),
+            byteLength: sizeInBytes,
+            checksum: getChecksum(encoded),
+        };
+        const evicted = this.l2Cache.set(chunkKey, { size: sizeInBytes }).evicted;
+        // Evicted chunks are deleted first, so the store has room for the new one.
+        await this.removeFromL2Store(evicted.filter(entry => entry.key !== chunkKey));
+        // A chunk larger than the whole L2 budget is evicted straight away and never stored.
+        if (!evicted.some(entry => entry.key === chunkKey) && await this.writeToL2Store(chunkKey, { header, chunk: encoded })) {
+            this.coordinator?.announce({ type: 'chunkStored', chunkKey, sizeInBytes });
         }
+        await this.saveL2Manifest();
+    }
 
-        await set(chunkIndex, chunkData, this.l2Store);
+    /**
+     * Writes an indexed chunk to the L2 store. While the storage is full, the L2 budget is lowered
+     * below what is stored besides the chunk, evicting older chunks, and the write retried. Resolves
+     * to false once the chunk no longer fits, which leaves L1 only if nothing else was stored.
+     */
+    private async writeToL2Store(chunkKey: ChunkKey, entry: L2Entry): Promise<boolean> {
+        while (true) {
+            try {
+                await this.l2Store.set(chunkKey, entry);
+                return true;
+            } catch (error) {
+                if (!isQuotaExceededError(error)) throw error;
+                const sizeBefore = this.l2Cache.size;
+                await this.capL2Budget(this.l2Cache.size - entry.header.byteLength, 'quotaExceeded');
+                if (!this.l2Cache.has(chunkKey)) return false;
+                if (this.l2Cache.size === sizeBefore) {
+                    // Only pinned chunks are left, and they are not evicted.
+                    this.l2Cache.delete(chunkKey);
+                    return false;
+                }
+            }
+        }
+    }
 
-        // Evict more if over budget
-        while (this.l2CurrentSizeInBytes > this.l2CacheSizeInBytes) {
-            const evicted = this.l2Cache.set(chunkIndex, { size: chunkSize }).evicted;
-            if (evicted) {
-                this.l2CurrentSizeInBytes -= evicted.value.size;
-                await del(evicted.key, this.l2Store);
-            } else {
-                break; // Should not happen if size > 0
+    /**
+     * Reads a chunk from L2 and decodes it. Resolves to undefined if the store does not hold it
+     * (any more), dropping it from the L2 index, or if it fails its header checks, in which case
+     * it is purged and reported.
+     */
+    private async readFromL2Store(chunkKey: ChunkKey): Promise<{ chunkData: FrameData[]; sizeInBytes: number } | undefined> {
+        let problem: string | null;
+        try {
+            const entry = await this.l2Store.get<L2Entry>(chunkKey);
+            if (!entry) {
+                if (this.l2Cache.delete(chunkKey)) {
+                    await this.saveL2Manifest();
+                }
+                return undefined;
+            }
+            problem = this.checkL2Entry(chunkKey, entry);
+            if (problem === null) {
+                const chunkData = await this.l2Codec.decode(entry.chunk);
+                const { frameCount, atomCounts, boxLengths } = entry.header;
+                if (chunkData.length === frameCount && chunkData.every((frame, i) =>
+                    frame.coords.length === atomCounts[i] * 3 && frame.box.length === boxLengths[i])) {
+                    return { chunkData, sizeInBytes: entry.header.byteLength };
+                }
+                problem = "decoded frames do not match the header";
+            }
+        } catch (error) {
+            problem = `unreadable (${error instanceof Error ? error.message : error})`;
+        }
+
+        console.warn(`Discarding L2 chunk ${chunkKey}: ${problem}.`);
+        this.l2Cache.delete(chunkKey);
+        await this.l2Store.del(chunkKey);
+        this.coordinator?.announce({ type: 'chunksEvicted', chunkKeys: [chunkKey] });
+        await this.saveL2Manifest();
+        this.emit('chunkCorruptedL2', { ...this.getChunkRange(chunkKey), reason: problem });
+        return undefined;
+    }
+
+    // Describes how a stored entry differs from what chunkKey should hold, or returns null if it matches.
+    private checkL2Entry(chunkKey: ChunkKey, entry: L2Entry): string | null {
+        const { header, chunk } = entry;
+        if (!header || !Array.isArray(header.atomCounts) || !Array.isArray(header.boxLengths) || !chunk?.coordLengths || !chunk.boxLengths || !chunk.boxes || !chunk.data) {
+            return "malformed entry";
+        }
+        const { startFrame, endFrame, stride } = this.getChunkRange(chunkKey);
+        if (header.startFrame !== startFrame || header.endFrame !== endFrame || header.stride !== stride) {
+            return `frame range mismatch (${header.startFrame}-${header.endFrame}:${header.stride})`;
+        }
+        const { frameCount, atomCounts, boxLengths } = header;
+        if (frameCount !== Math.ceil((endFrame - startFrame) / stride) || chunk.frameCount !== frameCount
+            || atomCounts.length !== frameCount || boxLengths.length !== frameCount
+            || chunk.coordLengths.length !== frameCount || chunk.boxLengths.length !== frameCount) {
+            return `frame count mismatch (${chunk.frameCount})`;
+        }
+        // Only a declared count is checked; the one init() sampled may not hold for every frame.
+        const atomCount = parseChunkKey(chunkKey).selection?.atomCount ?? this.metadata?.atomCount;
+        const mismatch = atomCount === undefined ? -1 : atomCounts.findIndex(count => count !== atomCount);
+        if (mismatch >= 0) {
+            return `atom count mismatch (${atomCounts[mismatch]} instead of ${atomCount} in frame ${mismatch})`;
+        }
+        if (chunk.codec !== this.l2Codec.name) {
+            return `encoded by codec '${chunk.codec}'`;
+        }
+        if (getEncodedSizeInBytes(chunk) !== header.byteLength) {
+            return `byte length mismatch (${getEncodedSizeInBytes(chunk)} instead of ${header.byteLength})`;
+        }
+        if (getChecksum(chunk) !== header.checksum) {
+            return "checksum mismatch";
+        }
+        return null;
+    }
+
+    private async removeFromL2Store(evicted: { key: ChunkKey, value: { size: number } }[]): Promise<void> {
+        for (const { key, value } of evicted) {
+            await this.l2Store.del(key);
+            this.emit('chunkEvictedL2', { ...this.getChunkRange(key), sizeInBytes: value.size });
+        }
+        if (evicted.length > 0) {
+            this.coordinator?.announce({ type: 'chunksEvicted', chunkKeys: evicted.map(entry => entry.key) });
+        }
+    }
+
+    /**
+     * Writes the manifest. While the storage is full, the L2 budget is lowered one chunk at a time,
+     * evicting the least recently used chunk, and the write retried, as in writeToL2Store(). Once
+     * only pinned chunks are left, frames are cached in L1 only and the stored manifest is left as
+     * it is: restoreL2Index() drops the chunks it lists that are gone.
+     */
+    private async saveL2Manifest(): Promise<void> {
+        while (true) {
+            const manifest: L2Manifest = {
+                version: L2_MANIFEST_VERSION,
+                codec: this.l2Codec.name,
+                chunks: this.l2Cache.entries().map(([chunkKey, { size }]) => [chunkKey, size]),
+                metadata: this.metadata,
+                frameSizeInBytes: this.frameSizeInBytes,
+                atomCount: this.atomCount,
+            };
+            try {
+                await this.l2Store.set(L2_MANIFEST_KEY, manifest);
+                return;
+            } catch (error) {
+                if (!isQuotaExceededError(error)) throw error;
+                const sizeBefore = this.l2Cache.size;
+                await this.lowerL2Budget(sizeBefore - 1, 'quotaExceeded');
+                if (this.l2Cache.size === sizeBefore) {
+                    // Only pinned chunks are left, if any; without them, L1 only has been reported already.
+                    if (sizeBefore > 0) {
+                        console.warn("Failed to save the L2 manifest:", error);
+                    }
+                    return;
+                }
             }
         }
     }
 
-    private prefetchNextChunk(chunkIndex: number): void {
-        const totalChunks = Math.ceil(this.getFrameCount() / this.framesPerChunk!);
-        if (chunkIndex >= totalChunks) return;
+    // Prefetches the chunks the planner expects next and cancels those it no longer wants.
+    // Chunks are planned in steps of `stride` frames, the stride playback is moving in, for the atoms being viewed.
+    private schedulePrefetches(frameIndex: number, stride: number, selection: AtomSelection | null): void {
+        const framesPerChunk = this.framesPerChunk!;
+        const currentChunkIndex = Math.floor(frameIndex / stride / framesPerChunk);
+        const chunkSelection = this.dataSource.supportsAtomIndices ? selection : null;
+        const totalChunks = Math.ceil(Math.ceil(this.getFrameCount() / stride) / framesPerChunk);
+        const plan = this.prefetchPlanner!.plan(currentChunkIndex, totalChunks);
 
-        if (!this.l1Cache.has(chunkIndex) && !this.l2Cache.has(chunkIndex) && !this.pendingFetches.has(chunkIndex)) {
-            this.getOrFetchChunk(chunkIndex).catch(error => {
-                console.error(`Error pre-fetching chunk ${chunkIndex}:`, error);
-            });
+        // One chunk of slack on each side avoids cancelling and restarting fetches while the speed estimate settles.
+        const windowStart = (Math.min(currentChunkIndex, ...plan) - 1) * framesPerChunk * stride;
+        const windowEnd = (Math.max(currentChunkIndex, ...plan) + 2) * framesPerChunk * stride;
+        for (const [chunkKey, pending] of [...this.pendingFetches]) {
+            const { startFrame, endFrame } = this.getChunkRange(chunkKey);
+            if (pending.isPrefetch && (endFrame <= windowStart || startFrame >= windowEnd)) {
+                pending.isPrefetch = false;
+                this.releaseFetch(chunkKey, pending);
+            }
+        }
+
+        // Only as many chunks as L1 holds next to the current one are kept warm in L1;
+        // promoting more would just evict each other on every call.
+        const estimatedChunkSize = framesPerChunk * this.frameSizeInBytes!;
+        const warmSlots = Math.floor(this.l1CacheSizeInBytes / estimatedChunkSize) - 1;
+        // The chunk the playhead reaches next is fetched before the rest of the plan.
+        plan.forEach((chunkIndex, i) => this.prefetchChunk(
+            toChunkKey(this.chunkLevel!, chunkIndex, stride, chunkSelection), i < warmSlots, i === 0 ? 'near' : 'background'));
+    }
+
+    private prefetchChunk(chunkKey: ChunkKey, keepWarm: boolean, priority: FetchPriority): void {
+        // Chunks of other sizes, strides or atom selections may already cover the range.
+        const { startFrame, endFrame, stride } = this.getChunkRange(chunkKey);
+        const { selection } = parseChunkKey(chunkKey);
+        let covered = true;
+        for (let frameIndex = startFrame; frameIndex < endFrame;) {
+            const coveringKey = this.findChunkKey(frameIndex, stride, selection);
+            if (!coveringKey) {
+                covered = false;
+                break;
+            }
+            if (keepWarm && !this.l1Cache.has(coveringKey) && this.l2Cache.has(coveringKey)) {
+                this.warmChunk(coveringKey);
+            }
+            // Continues at the first frame of this chunk past the covering one.
+            const coveredEnd = this.getChunkRange(coveringKey).endFrame;
+            frameIndex = startFrame + Math.ceil((coveredEnd - startFrame) / stride) * stride;
+        }
+        if (covered || this.offline) return;
+
+        const pending = this.pendingFetches.get(chunkKey) ?? this.startFetch(chunkKey, priority);
+        // Follows the plan as the playhead moves, unless a getFrame() call is waiting for the chunk.
+        if (pending.consumers === (pending.isPrefetch ? 1 : 0)) {
+            this.setFetchPriority(pending, priority);
+        }
+        if (pending.isPrefetch) return;
+        pending.isPrefetch = true;
+        this.emit('prefetchScheduled', this.getChunkRange(chunkKey));
+        pending.consumers++;
+        pending.promise.catch(error => {
+            if (pending.controller.signal.aborted) return;
+            console.error(`Error pre-fetching chunk ${chunkKey}:`, error);
+        });
+    }
+
+    // Promotes an L2 chunk to L1 ahead of time.
+    private warmChunk(chunkKey: ChunkKey): void {
+        if (this.pendingPromotions.has(chunkKey)) return;
+        this.pendingPromotions.add(chunkKey);
+        this.promoteFromL2(chunkKey).catch(error => {
+            console.error(`Error promoting chunk ${chunkKey} from L2:`, error);
+        }).finally(() => this.pendingPromotions.delete(chunkKey));
+    }
+
+    // Largest chunk level whose chunks stay within `sizeInBytes`, given the largest sampled frame.
+    private getChunkLevelForSize(sizeInBytes: number): number {
+        return Math.max(0, Math.floor(Math.log2(sizeInBytes / this.frameSizeInBytes!)));
+    }
+
+    private setChunkLevel(level: number): void {
+        this.chunkLevel = level;
+        this.framesPerChunk = 2 ** level;
+        this.prefetchPlanner?.setFramesPerChunk(this.framesPerChunk);
+    }
+
+    /**
+     * Picks the chunk size from the bandwidth estimate. A chunk must arrive faster than it plays
+     * (with 20% headroom), which takes more frames per request the higher the latency, and the
+     * latency should stay within a quarter of a request's duration. When the source cannot keep up
+     * at any size, the largest chunks waste the least time on latency. The prefetch depth is raised
+     * so that the chunks ahead cover the time one fetch takes.
+     */
+    private adaptChunkSize(): void {
+        this.fetchesSinceChunkSizeChange++;
+        const estimate = this.bandwidthEstimator.getEstimate();
+        if (!this.adaptiveOptions.enabled || !estimate) return;
+
+        const { latencyMs, bytesPerSecond } = estimate;
+        const transferMsPerFrame = this.frameSizeInBytes! / bytesPerSecond * 1000;
+        const framesPerSecond = Math.max(this.adaptiveOptions.playbackFramesPerSecond, this.prefetchPlanner!.getMotion().framesPerSecond);
+        const budgetMsPerFrame = 0.8 * 1000 / framesPerSecond;
+
+        const framesToKeepUp = transferMsPerFrame < budgetMsPerFrame
+            ? latencyMs / (budgetMsPerFrame - transferMsPerFrame)
+            : Infinity;
+        const framesToAmortizeLatency = transferMsPerFrame > 0 ? 3 * latencyMs / transferMsPerFrame : 0;
+        const frames = Math.max(framesToKeepUp, framesToAmortizeLatency, 1);
+
+        const minLevel = this.getChunkLevelForSize(this.adaptiveOptions.minChunkSizeInBytes);
+        const maxLevel = Math.min(this.getMaxChunkLevelForL1(),
+            Math.max(minLevel, this.getChunkLevelForSize(this.adaptiveOptions.maxChunkSizeInBytes)));
+        const level = Math.min(maxLevel, Math.max(minLevel, Math.ceil(Math.log2(frames))));
+
+        const framesPerChunk = 2 ** level;
+        const fetchMs = latencyMs + framesPerChunk * transferMsPerFrame;
+        const playMs = framesPerChunk * 1000 / framesPerSecond;
+        this.prefetchPlanner!.setDepth(Math.max(this.prefetchOptions.depth, Math.ceil(fetchMs / playMs)));
+
+        // A few fetches at the current size must inform the estimate before the size changes again.
+        if (level === this.chunkLevel || this.fetchesSinceChunkSizeChange < 3) return;
+        this.changeChunkLevel(level, estimate);
+    }
+
+    // Largest chunk level at which the playhead's chunk, the chunks kept behind it and the next one all fit in L1.
+    private getMaxChunkLevelForL1(): number {
+        return this.getChunkLevelForSize(this.l1CacheSizeInBytes / (this.prefetchOptions.behind + 2));
+    }
+
+    // Shrinks adaptively sized chunks that no longer fit in L1 as getMaxChunkLevelForL1() requires, e.g. after reconfigure().
+    private capAdaptiveChunkLevel(): void {
+        const estimate = this.bandwidthEstimator.getEstimate();
+        const maxLevel = this.getMaxChunkLevelForL1();
+        // Without an estimate the chunk size has not been adapted yet.
+        if (!this.adaptiveOptions.enabled || !estimate || this.chunkLevel === null || this.chunkLevel <= maxLevel) return;
+        this.changeChunkLevel(maxLevel, estimate);
+    }
+
+    private changeChunkLevel(level: number, estimate: BandwidthEstimate): void {
+        const previousFramesPerChunk = this.framesPerChunk!;
+        this.setChunkLevel(level);
+        this.fetchesSinceChunkSizeChange = 0;
+        this.emit('chunkSizeChanged', {
+            framesPerChunk: this.framesPerChunk!,
+            previousFramesPerChunk,
+            ...estimate,
+        });
+    }
+
+    /**
+     * Key of a chunk at the current size that holds `frameIndex`, which must be a multiple of `stride`.
+     * Sources that cannot select atoms get full-frame chunks.
+     */
+    private getNewChunkKey(frameIndex: number, stride: number, selection: AtomSelection | null = null): ChunkKey {
+        const chunkSelection = this.dataSource.supportsAtomIndices ? selection : null;
+        return toChunkKey(this.chunkLevel!, Math.floor(frameIndex / stride / this.framesPerChunk!), stride, chunkSelection);
+    }
+
+    private addKnownLayout(chunkKey: ChunkKey): void {
+        const { level, stride, selection } = parseChunkKey(chunkKey);
+        this.knownLayouts.set(`${level}:${stride}`, { level, stride });
+        if (selection) {
+            this.knownSelections.set(selection.key, selection);
+        }
+    }
+
+    private getChunkRange(chunkKey: ChunkKey): ChunkRange {
+        const { level, index, stride, selection } = parseChunkKey(chunkKey);
+        const framesPerChunk = 2 ** level;
+        const startFrame = index * framesPerChunk * stride;
+        const endFrame = Math.min(startFrame + framesPerChunk * stride, this.getFrameCount());
+        const range: ChunkRange = { chunkIndex: index, framesPerChunk, stride, startFrame, endFrame };
+        if (selection) {
+            range.atomIndices = selection.ranges;
+        }
+        return range;
+    }
+
+    private getFrameFromChunk(chunkKey: ChunkKey, chunkData: FrameData[], frameIndex: number, selection: AtomSelection | null): FrameData {
+        const { startFrame, stride } = this.getChunkRange(chunkKey);
+        return this.selectAtoms(chunkKey, chunkData[(frameIndex - startFrame) / stride], selection);
+    }
+
+    // Narrows a frame of the given chunk down to the selected atoms.
+    private selectAtoms(chunkKey: ChunkKey, frame: FrameData, selection: AtomSelection | null): FrameData {
+        const chunkSelection = parseChunkKey(chunkKey).selection;
+        if (selection === null || selection.key === chunkSelection?.key) return frame;
+        return this.extractAtoms(frame, chunkSelection, selection);
+    }
+
+    private extractAtoms(frame: FrameData, source: AtomSelection | null, selection: AtomSelection): FrameData {
+        return { ...frame, coords: AtomSelection.extract(frame.coords, source, selection) };
+    }
+
+    private getChunkSize(chunkData: FrameData[]): number {
+        return getFramesSizeInBytes(chunkData);
+    }
+
+    private describeChunk(chunkKey: ChunkKey, chunkData: FrameData[]): ChunkEvent {
+        return { ...this.getChunkRange(chunkKey), sizeInBytes: this.getChunkSize(chunkData) };
+    }
+
+    // Whether the chunk holds any pinned frame.
+    private isPinned(chunkKey: ChunkKey): boolean {
+        if (this.pinnedRanges.length === 0) return false;
+        const { startFrame, endFrame } = this.getChunkRange(chunkKey);
+        return this.pinnedRanges.some(([start, end]) => start < endFrame && startFrame < end);
+    }
+
+    private assertNotDisposed(): void {
+        if (this.lifecycle.signal.aborted) {
+            throw new Error("Proxy has been disposed.");
         }
     }
 }
@@ -0,0 +1,112 @@
+import { FrameData } from './TrajectoryProxy';
+import { TrajectoryProxyEvents } from './TrajectoryProxyEvents';
+import { TrajectoryMetadata } from './TrajectoryMetadata';
+import { TypedEventEmitter, Listener } from './TypedEventEmitter';
+import { MessageEndpoint, ProxyInitResult, ProxyRequest, ProxyResponse } from './TrajectoryProxyWorker';
+
+// Distributes Omit over the union, so each request keeps its own fields.
+type CallRequest<R = Extract<ProxyRequest, { type: 'call' }>> = R extends unknown ? Omit<R, 'type' | 'id'> : never;
+
+/**
+ * Main-thread side of a TrajectoryProxy hosted in a worker by exposeTrajectoryProxy(), with the
+ * same init/getFrame/getFrameCount API. Events are forwarded from the worker once subscribed to.
+ */
+export class TrajectoryProxyClient extends TypedEventEmitter<TrajectoryProxyEvents> {
+  private readonly endpoint: MessageEndpoint;
+  private nextId = 0;
+  private calls = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+  private subscribed = new Set<keyof TrajectoryProxyEvents>();
+  private metadata: TrajectoryMetadata | null = null;
+
+  constructor(endpoint: MessageEndpoint) {
+    super();
+    this.endpoint = endpoint;
+    endpoint.addEventListener('message', event => this.handleResponse(event.data));
+  }
+
+  public async init(): Promise<void> {
+    if (this.metadata) return;
+    const { metadata } = await this.call<ProxyInitResult>({ method: 'init' });
+    this.metadata = metadata;
+  }
+
+  public getMetadata(): TrajectoryMetadata {
+    if (!this.metadata) {
+      throw new Error("Proxy not initialized. Call init() first.");
+    }
+    return this.metadata;
+  }
+
+  public getFrameCount(): number {
+    return this.getMetadata().frameCount;
+  }
+
+  /**
+   * Returns a single frame. Aborting `signal` rejects right away and cancels the request in the worker.
+   */
+  public getFrame(frameIndex: number, signal?: AbortSignal, atomIndices?: number[][]): Promise<FrameData> {
+    return this.call<FrameData>({ method: 'getFrame', frameIndex, atomIndices }, signal);
+  }
+
+  public async dispose(options: { dropL2?: boolean } = {}): Promise<void> {
+    await this.call({ method: 'dispose', options });
+    this.removeAllListeners();
+  }
+
+  public on<K extends keyof TrajectoryProxyEvents>(type: K, listener: Listener<TrajectoryProxyEvents[K]>): () => void {
+    if (!this.subscribed.has(type)) {
+      this.subscribed.add(type);
+      this.post({ type: 'subscribe', event: type });
+    }
+    return super.on(type, listener);
+  }
+
+  private call<T>(request: CallRequest, signal?: AbortSignal): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+      const id = this.nextId++;
+      const onAbort = () => {
+        this.calls.delete(id);
+        this.post({ type: 'abort', id });
+        reject(signal!.reason);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.calls.set(id, {
+        resolve: result => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(result as T); // The worker answers each method with its result type
+        },
+        reject: error => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+      });
+      this.post({ type: 'call', id, ...request } as ProxyRequest);
+    });
+  }
+
+  private post(request: ProxyRequest): void {
+    this.endpoint.postMessage(request, []);
+  }
+
+  private handleResponse(response: ProxyResponse): void {
+    if (response.type === 'event') {
+      this.emit(response.event, response.payload);
+      return;
+    }
+    const call = this.calls.get(response.id);
+    if (!call) return; // Aborted on this side already
+    this.calls.delete(response.id);
+    if (response.type === 'result') {
+      call.resolve(response.result);
+    } else {
+      // Rebuilt with the original name, so callers can still tell e.g. an AbortError apart.
+      const error = new Error(response.error.message);
+      error.name = response.error.name;
+      call.reject(error);
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { SourceState } from './CircuitBreaker';
+import { BandwidthEstimate } from './BandwidthEstimator';
+
+// Identifies a chunk and the frames startFrame, startFrame + stride, ... below endFrame it holds.
+// chunkIndex counts chunks of framesPerChunk frames, which changes as the chunk size adapts.
+export type ChunkRange = {
+  chunkIndex: number;
+  framesPerChunk: number;
+  stride: number; // 1 for contiguous chunks
+  startFrame: number;
+  endFrame: number;
+  atomIndices?: number[][]; // Atom ranges the chunk holds; absent for full frames
+};
+
+export type ChunkEvent = ChunkRange & {
+  sizeInBytes: number;
+};
+
+/**
+ * Events emitted by TrajectoryProxy, keyed by name. Durations are in milliseconds.
+ */
+export type TrajectoryProxyEvents = {
+  initialized: {
+    frameCount: number;
+    frameSizeInBytes: number; // Largest sampled frame
+    framesPerChunk: number | null;
+    isTransparent: boolean;
+    l2ChunksRestored: number;
+    durationMs: number;
+  };
+  // A chunk arrived from the data source; durationMs includes retries.
+  chunkFetched: ChunkEvent & { durationMs: number };
+  chunkPromotedFromL2: ChunkEvent & { durationMs: number };
+  chunkEvictedL1: ChunkEvent;
+  chunkEvictedL2: ChunkEvent;
+  // An L2 chunk failed its checks on read. It was deleted and is refetched when needed.
+  chunkCorruptedL2: ChunkRange & { reason: string };
+  // The L2 budget was lowered to fit the storage quota; a budget of 0 leaves only L1.
+  l2BudgetReduced: { budgetInBytes: number; reason: 'storageEstimate' | 'quotaExceeded' };
+  prefetchScheduled: ChunkRange;
+  // A single attempt failed. chunkIndex is null for requests outside the chunk cache (transparent mode).
+  fetchFailed: Omit<ChunkRange, 'chunkIndex' | 'framesPerChunk'> & {
+    chunkIndex: number | null;
+    error: unknown;
+    attempt: number;
+    willRetry: boolean;
+    durationMs: number;
+  };
+  sourceStateChanged: { state: SourceState };
+  chunkSizeChanged: BandwidthEstimate & { framesPerChunk: number; previousFramesPerChunk: number };
+};
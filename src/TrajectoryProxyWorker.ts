@@ -0,0 +1,103 @@
+import { FrameData, TrajectoryProxy } from './TrajectoryProxy';
+import { TrajectoryProxyEvents } from './TrajectoryProxyEvents';
+import { TrajectoryMetadata } from './TrajectoryMetadata';
+
+// Either side of a worker connection: a Worker, the worker's global scope, or a MessagePort.
+export interface MessageEndpoint {
+  postMessage(message: unknown, transfer: Transferable[]): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+}
+
+// Messages from a TrajectoryProxyClient to the worker.
+export type ProxyRequest =
+  | { type: 'call'; id: number; method: 'init' }
+  | { type: 'call'; id: number; method: 'getFrame'; frameIndex: number; atomIndices?: number[][] }
+  | { type: 'call'; id: number; method: 'dispose'; options: { dropL2?: boolean } }
+  | { type: 'abort'; id: number }
+  | { type: 'subscribe'; event: keyof TrajectoryProxyEvents };
+
+// A proxy event forwarded to the client, with the payload type of that event.
+export type ProxyEventResponse<K extends keyof TrajectoryProxyEvents> = { type: 'event'; event: K; payload: TrajectoryProxyEvents[K] };
+
+// Messages from the worker back to the client.
+export type ProxyResponse =
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; error: { name: string; message: string } }
+  | { [K in keyof TrajectoryProxyEvents]: ProxyEventResponse<K> }[keyof TrajectoryProxyEvents];
+
+// Result of the 'init' call: what the client needs to answer getFrameCount() and getMetadata() itself.
+export type ProxyInitResult = { metadata: TrajectoryMetadata };
+
+/**
+ * Serves `proxy` to a TrajectoryProxyClient on the other end of `endpoint`, by default the
+ * global scope of the worker this runs in. Fetching, parsing, L2 serialization and prefetching
+ * all stay in the worker. Frames are copied out of the caches there and their buffers are
+ * transferred, so the main thread receives them without copying.
+ */
+export function exposeTrajectoryProxy(
+  proxy: TrajectoryProxy,
+  endpoint: MessageEndpoint = self as unknown as MessageEndpoint,
+): void {
+  const requests = new Map<number, AbortController>();
+  const subscribed = new Set<keyof TrajectoryProxyEvents>();
+
+  const forward = <K extends keyof TrajectoryProxyEvents>(event: K) => {
+    proxy.on(event, payload => {
+      const response: ProxyEventResponse<K> = { type: 'event', event, payload };
+      endpoint.postMessage(response, []);
+    });
+  };
+
+  const call = async (request: Extract<ProxyRequest, { type: 'call' }>, signal: AbortSignal): Promise<[unknown, Transferable[]]> => {
+    switch (request.method) {
+      case 'init': {
+        await proxy.init();
+        const result: ProxyInitResult = { metadata: proxy.getMetadata() };
+        return [result, []];
+      }
+      case 'getFrame': {
+        const frame = await proxy.getFrame(request.frameIndex, signal, request.atomIndices);
+        // The cached chunk keeps the original buffers; transferring them would detach its frames.
+        const copy: FrameData = { ...frame, coords: new Float32Array(frame.coords), box: new Float32Array(frame.box) };
+        return [copy, [copy.coords.buffer, copy.box.buffer]];
+      }
+      case 'dispose':
+        await proxy.dispose(request.options);
+        return [undefined, []];
+    }
+  };
+
+  endpoint.addEventListener('message', event => {
+    const request = event.data as ProxyRequest;
+    switch (request.type) {
+      case 'abort':
+        requests.get(request.id)?.abort(new DOMException('The operation was aborted.', 'AbortError'));
+        break;
+      case 'subscribe':
+        if (subscribed.has(request.event)) break;
+        subscribed.add(request.event);
+        forward(request.event);
+        break;
+      case 'call': {
+        const controller = new AbortController();
+        requests.set(request.id, controller);
+        call(request, controller.signal).then(([result, transfer]) => {
+          const response: ProxyResponse = { type: 'result', id: request.id, result };
+          endpoint.postMessage(response, transfer);
+        }, (error: unknown) => {
+          const { name, message } = (error ?? {}) as { name?: unknown; message?: unknown };
+          const response: ProxyResponse = {
+            type: 'error',
+            id: request.id,
+            error: {
+              name: typeof name === 'string' ? name : 'Error',
+              message: typeof message === 'string' ? message : String(error),
+            },
+          };
+          endpoint.postMessage(response, []);
+        }).finally(() => requests.delete(request.id));
+        break;
+      }
+    }
+  });
+}
@@ -0,0 +1,50 @@
+export type Listener<T> = (event: T) => void;
+
+/**
+ * Minimal typed event emitter. `Events` maps each event name to its payload type.
+ * A throwing listener is logged and does not affect the emitter or other listeners.
+ */
+export class TypedEventEmitter<Events extends Record<string, unknown>> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  /**
+   * Subscribes to an event. Returns a function that unsubscribes the listener.
+   */
+  public on<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    let listeners = this.listeners[type];
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners[type] = listeners;
+    }
+    listeners.add(listener);
+    return () => this.off(type, listener);
+  }
+
+  public once<K extends keyof Events>(type: K, listener: Listener<Events[K]>): () => void {
+    const off = this.on(type, event => {
+      off();
+      listener(event);
+    });
+    return off;
+  }
+
+  public off<K extends keyof Events>(type: K, listener: Listener<Events[K]>): void {
+    this.listeners[type]?.delete(listener);
+  }
+
+  protected removeAllListeners(): void {
+    this.listeners = {};
+  }
+
+  protected emit<K extends keyof Events>(type: K, event: Events[K]): void {
+    const listeners = this.listeners[type];
+    if (!listeners) return;
+    for (const listener of [...listeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in '${String(type)}' listener:`, error);
+      }
+    }
+  }
+}
@@ -1 +1,18 @@
 export * from './TrajectoryProxy';
+export * from './ChunkStore';
+export * from './IndexedDBChunkStore';
+export * from './MemoryChunkStore';
+export * from './DataSourceErrors';
+export * from './CircuitBreaker';
+export * from './TypedEventEmitter';
+export * from './TrajectoryProxyEvents';
+export * from './PrefetchPlanner';
+export * from './BandwidthEstimator';
+export * from './FetchScheduler';
+export * from './AtomSelection';
+export * from './TrajectoryProxyWorker';
+export * from './TrajectoryProxyClient';
+export * from './CrossTabCoordinator';
+export * from './ChunkCodec';
+export * from './Checksum';
+export * from './TrajectoryMetadata';
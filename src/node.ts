@@ -0,0 +1,3 @@
+// Entry point for Node, built without the browser stubs for Node built-ins. The rest of the
+// library comes from the main entry point.
+export * from './FileSystemChunkStore';
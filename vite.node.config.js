@@ -0,0 +1,17 @@
+import { resolve } from 'path';
+import { defineConfig } from 'vite';
+
+// Builds the Node entry point. As an SSR build, Node built-ins stay imports instead of being
+// replaced with browser stubs.
+export default defineConfig({
+  build: {
+    ssr: resolve(__dirname, 'src/node.ts'),
+    emptyOutDir: false, // Keeps the browser build next to it
+    rollupOptions: {
+      output: [
+        { format: 'es', entryFileNames: 'ngl-data-proxy-node.js' },
+        { format: 'cjs', entryFileNames: 'ngl-data-proxy-node.cjs' },
+      ],
+    },
+  },
+});